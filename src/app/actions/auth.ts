@@ -4,26 +4,59 @@
 
 'use server';
 
-import { deleteSession } from '@/lib/session';
-import { buildLogoutUrl } from '@/lib/uaePass';
+import {
+  getSession,
+  getSessionRefreshToken,
+  deleteSession,
+  setLogoutState,
+} from '@/lib/session';
+import { buildLogoutUrl, revokeToken, generateState } from '@/lib/uaePass';
 import { redirect } from 'next/navigation';
 
+/**
+ * Post-logout redirect URI registered with UAE PASS
+ * Defaults to the route that verifies the returned logout state
+ */
+function getPostLogoutRedirectUri(): string {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+  return process.env.UAE_PASS_POST_LOGOUT_REDIRECT_URI || `${appUrl}/api/uae-pass/post-logout`;
+}
+
 /**
  * Logout from both the application and UAE PASS
  * 
  * This performs a complete logout:
- * 1. Clears the local application session (cookies)
- * 2. Redirects to UAE PASS logout endpoint to clear UAE PASS session
- * 3. UAE PASS then redirects back to the application
+ * 1. Revokes the access and refresh tokens (when UAE PASS exposes a revocation endpoint)
+ * 2. Clears the local application session (cookies)
+ * 3. Redirects to UAE PASS logout endpoint with id_token_hint, post_logout_redirect_uri and state
+ * 4. UAE PASS then redirects back to /api/uae-pass/post-logout, which checks the state
  * 
- * Reference: UAE PASS RP-Initiated Logout
+ * Reference: OpenID Connect RP-Initiated Logout 1.0
  */
 export async function logout() {
-  // Clear local session first
+  const session = await getSession();
+
+  // Revoke tokens before the session (and our copy of them) is gone
+  if (session) {
+    const refreshToken = await getSessionRefreshToken(session);
+    await Promise.all([
+      revokeToken(session.accessToken, 'access_token'),
+      refreshToken ? revokeToken(refreshToken, 'refresh_token') : Promise.resolve(false),
+    ]);
+  }
+
+  // Clear local session
   await deleteSession();
-  
-  // Build UAE PASS logout URL with redirect back to home
-  const logoutUrl = buildLogoutUrl(process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000');
+
+  // Remember the state so the post-logout route can verify the round trip
+  const state = generateState();
+  await setLogoutState(state);
+
+  const logoutUrl = await buildLogoutUrl({
+    idTokenHint: session?.idToken || undefined,
+    postLogoutRedirectUri: getPostLogoutRedirectUri(),
+    state,
+  });
   
   // Redirect to UAE PASS logout endpoint
   // This will clear the UAE PASS session and redirect back to our app
@@ -7,65 +7,52 @@
 
 'use server';
 
-import { cookies } from 'next/headers';
-import { jwtVerify } from 'jose';
 import { NormalizedUserProfile } from '@/lib/uaePass';
 import { handleCRMAuth } from '@/lib/crmApi';
-
-const SESSION_COOKIE_NAME = 'uaepass_session';
-
-function getSessionSecret(): Uint8Array {
-  const secret = process.env.SESSION_SECRET || 'dev-secret-change-in-production';
-  return new TextEncoder().encode(secret);
-}
+import { checkCRMAssuranceLevel } from '@/lib/crmAuthStep';
+import { getSession } from '@/lib/session';
+import { AppError, AppErrorDetails, toAppError } from '@/lib/errors';
 
 export interface CRMIntegrationResult {
   success: boolean;
-  error?: string;
-  errorType?: 'SOP_LEVEL' | 'USER_TYPE_ERROR' | 'CRM_ERROR' | 'REGISTRATION_ERROR' | 'SESSION_ERROR' | 'UNKNOWN';
+  error?: AppErrorDetails;
   crmLoginUrl?: string;
+  stepUpUrl?: string; // Set when error.code is STEP_UP_REQUIRED
   isNewCRMUser?: boolean;
 }
 
 /**
  * Process CRM integration after user confirms their info
+ *
+ * CRM_REQUIRED_ASSURANCE_LEVEL (e.g. SOP3) makes this a high-risk action:
+ * sessions authenticated below that level are sent through step-up first.
  */
 export async function processCRMIntegration(): Promise<CRMIntegrationResult> {
-  const cookieStore = await cookies();
-
   try {
-    // Get user from session
-    const sessionToken = cookieStore.get(SESSION_COOKIE_NAME)?.value;
-    if (!sessionToken) {
-      return { 
-        success: false, 
-        error: 'No active session. Please log in again.',
-        errorType: 'SESSION_ERROR',
-      };
-    }
-
-    // Decode session to get user info
-    let sessionData: any;
-    try {
-      const { payload } = await jwtVerify(sessionToken, getSessionSecret());
-      sessionData = payload;
-    } catch (error) {
-      return { 
-        success: false, 
-        error: 'Invalid session. Please log in again.',
-        errorType: 'SESSION_ERROR',
+    // Get user from session (renews the access token if it is about to expire)
+    const sessionData = await getSession();
+    if (!sessionData) {
+      return {
+        success: false,
+        error: new AppError('SESSION_MISSING').toJSON(),
       };
     }
 
     const user: NormalizedUserProfile = sessionData.user;
     if (!user) {
-      return { 
-        success: false, 
-        error: 'User information not found in session.',
-        errorType: 'SESSION_ERROR',
+      return {
+        success: false,
+        error: new AppError('SESSION_MISSING', 'User information not found in session').toJSON(),
       };
     }
 
+    // High-risk action: require the configured authentication level
+    const stepUp = checkCRMAssuranceLevel(user.acr);
+    if (stepUp) {
+      console.log('[CRM INTEGRATION] Step-up required:', stepUp.error.message);
+      return { success: false, ...stepUp };
+    }
+
     console.log('========================================');
     console.log('[CRM INTEGRATION] Starting CRM integration...');
     console.log('[CRM INTEGRATION] User:', user.email);
@@ -87,20 +74,18 @@ export async function processCRMIntegration(): Promise<CRMIntegrationResult> {
       };
     } else {
       console.error('[CRM INTEGRATION] CRM integration failed:', crmResult.error);
-      console.error('[CRM INTEGRATION] Error type:', crmResult.errorType);
-      
+
       return {
         success: false,
-        error: crmResult.error || 'CRM integration failed',
-        errorType: crmResult.errorType || 'UNKNOWN',
+        error: crmResult.error || new AppError('CRM_UNAVAILABLE', 'CRM returned no login URL').toJSON(),
       };
     }
   } catch (error) {
-    console.error('[CRM INTEGRATION] Error:', error);
+    const appError = toAppError(error);
+    console.error(`[CRM INTEGRATION] Error (${appError.code}, ${appError.supportReference}):`, error);
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'CRM integration failed',
-      errorType: 'UNKNOWN',
+      error: appError.toJSON(),
     };
   }
 }
@@ -0,0 +1,104 @@
+/**
+ * Local Mock CRM Route Handler
+ *
+ * Serves the mock FXBackoffice CRM from src/lib/mockCrm.ts:
+ * - POST rest/users, rest/users/new, rest/users/update, rest/user/direct_login
+ * - GET  mock/direct-login/{token} (where direct login URLs lead)
+ * - GET/POST mock/failures (inspect or change injected failures), POST mock/reset
+ *
+ * Only available when CRM_ENVIRONMENT=local-mock outside production.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isMockCrmEnabled,
+  checkMockCrmRequest,
+  handleSearchUsers,
+  handleRegisterUser,
+  handleUpdateUser,
+  handleDirectLogin,
+  renderDirectLoginPage,
+  getMockCrmFailures,
+  setMockCrmFailures,
+  resetMockCrm,
+  MOCK_CRM_ENDPOINTS,
+  MockCrmEndpoint,
+  MockCrmResponse,
+} from '@/lib/mockCrm';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+function notFound() {
+  return NextResponse.json({ code: 404, message: 'Not found' }, { status: 404 });
+}
+
+function toResponse({ status, body }: MockCrmResponse) {
+  return NextResponse.json(body, { status });
+}
+
+export async function GET(_request: NextRequest, context: RouteContext) {
+  if (!isMockCrmEnabled()) {
+    return notFound();
+  }
+
+  const path = (await context.params).path.join('/');
+
+  if (path === 'mock/failures') {
+    return NextResponse.json(getMockCrmFailures());
+  }
+
+  const [directLoginMatch, token] = path.match(/^mock\/direct-login\/([^/]+)$/) || [];
+  if (directLoginMatch) {
+    const html = renderDirectLoginPage(token);
+    return html
+      ? new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+      : notFound();
+  }
+
+  return notFound();
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  if (!isMockCrmEnabled()) {
+    return notFound();
+  }
+
+  const path = (await context.params).path.join('/');
+
+  let body: Record<string, unknown> = {};
+  try {
+    const text = await request.text();
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    return NextResponse.json({ code: 400, message: 'Request body is not valid JSON' }, { status: 400 });
+  }
+
+  if (path === 'mock/failures') {
+    return NextResponse.json(setMockCrmFailures(body));
+  }
+  if (path === 'mock/reset') {
+    resetMockCrm();
+    return NextResponse.json({ reset: true });
+  }
+
+  const endpoint = path.replace(/^rest\//, '') as MockCrmEndpoint;
+  if (!path.startsWith('rest/') || !MOCK_CRM_ENDPOINTS.includes(endpoint)) {
+    return notFound();
+  }
+
+  const rejected = await checkMockCrmRequest(endpoint, request.headers.get('authorization'));
+  if (rejected) {
+    return toResponse(rejected);
+  }
+
+  switch (endpoint) {
+    case 'users':
+      return toResponse(handleSearchUsers(body as Parameters<typeof handleSearchUsers>[0]));
+    case 'users/new':
+      return toResponse(handleRegisterUser(body as Parameters<typeof handleRegisterUser>[0]));
+    case 'users/update':
+      return toResponse(handleUpdateUser(body as Parameters<typeof handleUpdateUser>[0]));
+    case 'user/direct_login':
+      return toResponse(handleDirectLogin(body as Parameters<typeof handleDirectLogin>[0]));
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Local Mock UAE PASS Route Handler
+ *
+ * Serves the mock identity provider from src/lib/mockUaePass.ts:
+ * - GET  .well-known/openid-configuration, jwks, authorize, userinfo, logout
+ * - POST authorize (login page decision), par, token, revoke
+ *
+ * and the mock digital signature service from src/lib/mockUaePassSignature.ts:
+ * - POST trustedx-resources/esignsp/v2/signer_processes
+ * - GET  trustedx-resources/esignsp/v2/signer_processes/{id}, documents/{id}/content
+ * - GET/POST sign/{id} (signing page and decision)
+ *
+ * Only available when UAE_PASS_ENVIRONMENT=local-mock outside production.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  isMockIdpEnabled,
+  getMockDiscoveryDocument,
+  getMockJwks,
+  validateAuthorizationRequest,
+  resolveAuthorizationParams,
+  handlePushedAuthorizationRequest,
+  renderAuthorizePage,
+  completeAuthorization,
+  isMockAutoApproveEnabled,
+  getDefaultMockPersona,
+  handleTokenRequest,
+  handleRevocationRequest,
+  handleUserInfoRequest,
+  handleLogoutRequest,
+  MockOAuthError,
+} from '@/lib/mockUaePass';
+import {
+  MOCK_SIGN_API_PATH,
+  handleCreateSignerProcess,
+  handleGetSignerProcess,
+  handleDownloadDocument,
+  renderSigningPage,
+  completeSigning,
+} from '@/lib/mockUaePassSignature';
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+function isOAuthError(value: unknown): value is MockOAuthError {
+  return typeof value === 'object' && value !== null && 'error' in value && 'status' in value;
+}
+
+function errorResponse({ error, error_description, status }: MockOAuthError) {
+  return NextResponse.json({ error, error_description }, { status });
+}
+
+function notFound() {
+  return NextResponse.json({ error: 'Not found' }, { status: 404 });
+}
+
+function htmlResponse(html: string) {
+  return new NextResponse(html, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  if (!isMockIdpEnabled()) {
+    return notFound();
+  }
+
+  const path = (await context.params).path.join('/');
+
+  switch (path) {
+    case '.well-known/openid-configuration':
+      return NextResponse.json(getMockDiscoveryDocument());
+
+    case 'jwks':
+      return NextResponse.json(await getMockJwks());
+
+    case 'authorize': {
+      // The login page posts the expanded parameters back, not the request_uri
+      const query = await resolveAuthorizationParams(request.nextUrl.searchParams);
+      if (isOAuthError(query)) {
+        return errorResponse(query);
+      }
+      const authRequest = validateAuthorizationRequest(query);
+      if (isOAuthError(authRequest)) {
+        return errorResponse(authRequest);
+      }
+      if (isMockAutoApproveEnabled()) {
+        const redirectUrl = completeAuthorization(authRequest, 'approve', getDefaultMockPersona().id);
+        return isOAuthError(redirectUrl) ? errorResponse(redirectUrl) : NextResponse.redirect(redirectUrl, 303);
+      }
+      return htmlResponse(renderAuthorizePage(query, authRequest));
+    }
+
+    case 'logout': {
+      const redirectUrl = await handleLogoutRequest(request.nextUrl.searchParams);
+      return isOAuthError(redirectUrl) ? errorResponse(redirectUrl) : NextResponse.redirect(redirectUrl, 303);
+    }
+
+    case 'userinfo': {
+      const profile = handleUserInfoRequest(request.headers.get('authorization'));
+      return isOAuthError(profile) ? errorResponse(profile) : NextResponse.json(profile);
+    }
+  }
+
+  const [signProcessMatch, signProcessId] = path.match(new RegExp(`^${MOCK_SIGN_API_PATH}/signer_processes/([^/]+)$`)) || [];
+  if (signProcessMatch) {
+    const result = handleGetSignerProcess(signProcessId, request.headers.get('authorization'));
+    return isOAuthError(result) ? errorResponse(result) : NextResponse.json(result);
+  }
+
+  const [documentMatch, documentId] = path.match(new RegExp(`^${MOCK_SIGN_API_PATH}/documents/([^/]+)/content$`)) || [];
+  if (documentMatch) {
+    const result = handleDownloadDocument(documentId, request.headers.get('authorization'));
+    return isOAuthError(result)
+      ? errorResponse(result)
+      : new NextResponse(new Uint8Array(result), { headers: { 'Content-Type': 'application/pdf' } });
+  }
+
+  const [signPageMatch, signPageId] = path.match(/^sign\/([^/]+)$/) || [];
+  if (signPageMatch) {
+    const html = renderSigningPage(signPageId);
+    return html ? htmlResponse(html) : notFound();
+  }
+
+  return notFound();
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  if (!isMockIdpEnabled()) {
+    return notFound();
+  }
+
+  const path = (await context.params).path.join('/');
+
+  if (path === `${MOCK_SIGN_API_PATH}/signer_processes`) {
+    const result = await handleCreateSignerProcess(await request.formData(), request.headers.get('authorization'));
+    return isOAuthError(result) ? errorResponse(result) : NextResponse.json(result, { status: 201 });
+  }
+
+  const form = new URLSearchParams(await request.text());
+
+  const [signPageMatch, signPageId] = path.match(/^sign\/([^/]+)$/) || [];
+  if (signPageMatch) {
+    const redirectUrl = completeSigning(signPageId, form.get('decision'));
+    return redirectUrl ? NextResponse.redirect(redirectUrl, 303) : notFound();
+  }
+
+  switch (path) {
+    case 'authorize': {
+      const authRequest = validateAuthorizationRequest(form);
+      if (isOAuthError(authRequest)) {
+        return errorResponse(authRequest);
+      }
+
+      const redirectUrl = completeAuthorization(authRequest, form.get('decision'), form.get('persona'));
+      return isOAuthError(redirectUrl) ? errorResponse(redirectUrl) : NextResponse.redirect(redirectUrl, 303);
+    }
+
+    case 'par': {
+      const result = await handlePushedAuthorizationRequest(form, request.headers.get('authorization'));
+      return isOAuthError(result)
+        ? errorResponse(result)
+        : NextResponse.json(result, { status: 201, headers: { 'Cache-Control': 'no-store' } });
+    }
+
+    case 'token': {
+      const result = await handleTokenRequest(form, request.headers.get('authorization'));
+      return isOAuthError(result)
+        ? errorResponse(result)
+        : NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+    }
+
+    case 'revoke': {
+      const error = await handleRevocationRequest(form, request.headers.get('authorization'));
+      return error ? errorResponse(error) : new NextResponse(null, { status: 200 });
+    }
+
+    default:
+      return notFound();
+  }
+}
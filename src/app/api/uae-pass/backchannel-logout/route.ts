@@ -0,0 +1,60 @@
+/**
+ * UAE PASS Back-Channel Logout Route Handler
+ *
+ * UAE PASS posts a signed logout_token here (server-to-server) when the user
+ * logs out of UAE PASS elsewhere. The token is validated against the provider's
+ * JWKS and every session matching its sid / sub is ended.
+ * Reference: OpenID Connect Back-Channel Logout 1.0 - Section 2.5 - 2.8
+ *
+ * Register {NEXT_PUBLIC_APP_URL}/api/uae-pass/backchannel-logout as the
+ * back-channel logout URI in the UAE PASS portal.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { validateLogoutToken, LogoutTokenClaims } from '@/lib/uaePass';
+import { revokeSessions } from '@/lib/session';
+import { HttpRequestError } from '@/lib/httpTransport';
+import { authLogger as logger } from '@/lib/logger';
+
+// Back-channel logout responses must not be cached (Section 2.8)
+const NO_STORE = { 'Cache-Control': 'no-store' };
+
+function logoutError(description: string, status = 400) {
+  return NextResponse.json({ error: 'invalid_request', error_description: description }, { status, headers: NO_STORE });
+}
+
+export async function POST(request: NextRequest) {
+  let logoutToken: string | null = null;
+  try {
+    logoutToken = new URLSearchParams(await request.text()).get('logout_token');
+  } catch {
+    // Unreadable body - reported below as a missing token
+  }
+
+  if (!logoutToken) {
+    return logoutError('logout_token is required');
+  }
+
+  let claims: LogoutTokenClaims;
+  try {
+    claims = await validateLogoutToken(logoutToken);
+  } catch (error) {
+    if (error instanceof HttpRequestError) {
+      // Keys unavailable: a 5xx lets UAE PASS retry the notification
+      logger.error('Back-channel logout could not load the UAE PASS keys:', error.message);
+      return logoutError('Signing keys are unavailable', 503);
+    }
+    logger.warn('Rejected back-channel logout:', error instanceof Error ? error.message : error);
+    return logoutError('logout_token is invalid');
+  }
+
+  try {
+    // A replayed token (same jti) is acknowledged without ending anything again
+    await revokeSessions({ sub: claims.sub, sid: claims.sid }, claims.jti, claims.exp * 1000);
+  } catch (error) {
+    // Session store unavailable: a 5xx lets UAE PASS retry the notification
+    logger.error('Back-channel logout could not end the sessions:', error instanceof Error ? error.message : error);
+    return logoutError('Sessions could not be ended', 503);
+  }
+  return new NextResponse(null, { status: 200, headers: NO_STORE });
+}
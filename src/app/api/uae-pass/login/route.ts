@@ -3,19 +3,63 @@
  * 
  * Handles automatic redirect to UAE PASS authentication gateway
  * Route Handlers can modify cookies, unlike Server Components
+ *
+ * Query parameters:
+ * - level: required assurance level (SOP1, SOP2, SOP3), e.g. ?level=SOP3
+ * - stepUp: "1" to force re-authentication when raising the level of an existing session
+ * - flow: "web" or "mobile" to override User-Agent detection of the UAE PASS mobile on-device flow
+ * - returnTo: same-origin path to open after login, e.g. ?returnTo=/uae-pass/profile
+ *   (must match UAE_PASS_RETURN_TO_ALLOWLIST; anything else is ignored)
+ *
+ * The request is pushed to UAE PASS (PAR) or signed as a request object when
+ * configured or advertised by the provider; see getAuthorizationRequestMode.
  */
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import {
   generatePKCEPair,
   generateState,
   generateNonce,
   buildAuthorizationUrl,
+  selectAuthenticationFlow,
+  getUAEPassConfig,
+  getAuthorizationRequestMode,
 } from '@/lib/uaePass';
-import { setState, setNonce, setCodeVerifier } from '@/lib/session';
+import { HttpRequestError } from '@/lib/httpTransport';
+import { toAppError } from '@/lib/errors';
+import { createLoginTransaction } from '@/lib/loginTransaction';
+import { parseAssuranceLevel } from '@/lib/assurance';
+import { sanitizeReturnTo } from '@/lib/returnTo';
+import { authLogger as logger } from '@/lib/logger';
 
-export async function GET() {
+export async function GET(request: NextRequest) {
   try {
+    // Resolve the requested assurance level (defaults to SOP1)
+    const levelParam = request.nextUrl.searchParams.get('level');
+    const parsedLevel = parseAssuranceLevel(levelParam);
+    if (levelParam && !parsedLevel) {
+      return NextResponse.json(
+        { error: `Invalid level "${levelParam}". Expected one of: SOP1, SOP2, SOP3` },
+        { status: 400 }
+      );
+    }
+    const acrLevel = parsedLevel || 'SOP1';
+    const isStepUp = request.nextUrl.searchParams.get('stepUp') === '1';
+
+    // Where to go after login; rejected targets fall back to the confirmation screen
+    const returnToParam = request.nextUrl.searchParams.get('returnTo');
+    const returnTo = sanitizeReturnTo(returnToParam);
+    if (returnToParam && !returnTo) {
+      logger.warn('Ignoring returnTo outside the allowlist:', returnToParam.substring(0, 200));
+    }
+
+    // Mobile browsers hand off to the UAE PASS app unless told otherwise (or the level needs the web flow)
+    const flow = selectAuthenticationFlow(
+      request.headers.get('user-agent'),
+      request.nextUrl.searchParams.get('flow'),
+      acrLevel
+    );
+
     // Generate PKCE pair
     const pkcePair = generatePKCEPair();
 
@@ -25,25 +69,38 @@ export async function GET() {
     // Generate nonce for ID token validation
     const nonce = generateNonce();
 
-    // Store state, nonce, and code verifier in secure cookies
-    await setState(state);
-    await setNonce(nonce);
-    await setCodeVerifier(pkcePair.codeVerifier);
+    // Store nonce, code verifier, level and return target in this login's transaction cookie
+    await createLoginTransaction({
+      state,
+      nonce,
+      codeVerifier: pkcePair.codeVerifier,
+      acrLevel,
+      returnTo: returnTo || undefined,
+    });
+
+    // PAR, signed request object or plain query parameters
+    const mode = getAuthorizationRequestMode(await getUAEPassConfig());
 
     // Build authorization URL
-    const authUrl = buildAuthorizationUrl({
+    const authUrl = await buildAuthorizationUrl({
       state,
       nonce,
       codeChallenge: pkcePair.codeChallenge,
       codeChallengeMethod: pkcePair.codeChallengeMethod,
+      acrLevel,
+      flow,
+      prompt: isStepUp ? 'login' : undefined,
+      mode,
     });
 
     // Redirect to UAE PASS
     return NextResponse.redirect(authUrl);
   } catch (error) {
-    console.error('Login route error:', error);
+    // Discovery or JWKS unreachable, or misconfiguration (details stay in the log)
+    const appError = toAppError(error, error instanceof HttpRequestError ? 'UAE_PASS_UNREACHABLE' : 'UNKNOWN');
+    logger.error(`Login route error (${appError.code}, ${appError.supportReference}):`, error);
     return NextResponse.json(
-      { error: error instanceof Error ? error.message : 'Failed to initiate login' },
+      { error: appError.userMessage, code: appError.code, supportReference: appError.supportReference },
       { status: 500 }
     );
   }
@@ -0,0 +1,33 @@
+/**
+ * UAE PASS Post-Logout Route Handler
+ *
+ * UAE PASS redirects here after RP-initiated logout.
+ * Verifies the returned state against the one stored when logout started,
+ * then sends the user to the home page.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLogoutState, deleteLogoutState } from '@/lib/session';
+import { authLogger as logger } from '@/lib/logger';
+
+export async function GET(request: NextRequest) {
+  const returnedState = request.nextUrl.searchParams.get('state');
+  const storedState = await getLogoutState();
+  await deleteLogoutState();
+
+  const homeUrl = new URL('/', request.nextUrl.origin);
+
+  if (!storedState || !returnedState || storedState !== returnedState) {
+    // The local session is already gone; just flag the unverified round trip
+    logger.warn('Post-logout state validation failed', {
+      hasStoredState: Boolean(storedState),
+      hasReturnedState: Boolean(returnedState),
+    });
+    homeUrl.searchParams.set('logout', 'unverified');
+    return NextResponse.redirect(homeUrl);
+  }
+
+  logger.info('RP-initiated logout completed');
+  homeUrl.searchParams.set('logout', 'success');
+  return NextResponse.redirect(homeUrl);
+}
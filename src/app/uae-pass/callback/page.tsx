@@ -7,6 +7,7 @@
  */
 
 import CallbackHandler from '@/components/CallbackHandler';
+import { isCancellationError } from '@/lib/uaePass';
 
 interface CallbackPageProps {
   searchParams: Promise<{
@@ -20,8 +21,10 @@ interface CallbackPageProps {
 export default async function CallbackPage({ searchParams }: CallbackPageProps) {
   const params = await searchParams;
 
-  // Handle cancellation from UAE PASS
-  if (params.error === 'access_denied' || params.error === 'user_cancelled' || params.error === 'cancelled') {
+  // Handle cancellation from UAE PASS (browser or UAE PASS app)
+  if (isCancellationError(params.error, params.error_description)) {
+    const cancelledInApp = params.error === 'cancelledOnApp' || params.error_description === 'cancelledOnApp';
+
     return (
       <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
         <div className="w-full max-w-md space-y-4 rounded-2xl bg-white p-8 shadow-xl dark:bg-gray-800">
@@ -45,7 +48,9 @@ export default async function CallbackPage({ searchParams }: CallbackPageProps)
               Authentication Cancelled
             </h1>
             <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-              You cancelled the UAE PASS authentication. No changes have been made to your account.
+              {cancelledInApp
+                ? 'You cancelled the request in the UAE PASS app. No changes have been made to your account.'
+                : 'You cancelled the UAE PASS authentication. No changes have been made to your account.'}
             </p>
             <div className="mt-6 flex flex-col gap-3">
               <a
@@ -14,7 +14,8 @@ export default function LoginPage() {
 
   useEffect(() => {
     // Automatically redirect to the login route handler
-    router.push('/api/uae-pass/login');
+    // Forward query parameters such as ?level=SOP3
+    router.push(`/api/uae-pass/login${window.location.search}`);
   }, [router]);
 
   return (
@@ -2,18 +2,35 @@
  * UAE PASS Profile Page
  * 
  * Displays the authenticated user's profile information
+ * Names and nationality are shown in English, or Arabic with ?lang=ar
+ * Visitors without a session are sent to login and brought back afterwards
+ * (by the proxy's route policy, and again here)
+ * Shows how long the session has left, highlighted when it is about to end
  */
 
-import { redirect } from 'next/navigation';
-import { getSession } from '@/lib/session';
+import { getSessionTimeRemaining } from '@/lib/session';
+import { requireSession } from '@/lib/routeProtection';
 import ProfileDisplay from '@/components/ProfileDisplay';
+import { parseProfileLanguage } from '@/lib/profileLocale';
 
-export default async function ProfilePage() {
-  const session = await getSession();
+// Highlight the remaining session time below this many seconds
+const SESSION_WARNING_SECONDS = 5 * 60;
 
-  if (!session) {
-    redirect('/uae-pass/login');
-  }
+export default async function ProfilePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ [key: string]: string | string[] | undefined }>;
+}) {
+  const { lang } = await searchParams;
+  const language = parseProfileLanguage(typeof lang === 'string' ? lang : null) || 'en';
+
+  // Come back here (in the same language) after logging in
+  const session = await requireSession({
+    returnTo: language === 'ar' ? '/uae-pass/profile?lang=ar' : '/uae-pass/profile',
+  });
+
+  const remainingSeconds = getSessionTimeRemaining(session);
+  const remainingMinutes = Math.max(1, Math.ceil(remainingSeconds / 60));
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 py-12 px-4 sm:px-6 lg:px-8">
@@ -23,9 +40,18 @@ export default async function ProfilePage() {
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
             Your UAE PASS authenticated profile information
           </p>
+          <p
+            className={`mt-1 text-xs ${
+              remainingSeconds < SESSION_WARNING_SECONDS
+                ? 'font-semibold text-amber-700 dark:text-amber-400'
+                : 'text-gray-500 dark:text-gray-400'
+            }`}
+          >
+            Your session ends in {remainingMinutes} minute{remainingMinutes === 1 ? '' : 's'}
+          </p>
         </div>
 
-        <ProfileDisplay user={session.user} />
+        <ProfileDisplay user={session.user} language={language} />
       </div>
     </div>
   );
@@ -4,6 +4,7 @@
  * Client component that processes the UAE PASS callback
  * First gets user info from UAE PASS, then shows confirmation screen
  * User clicks button to proceed with CRM integration
+ * Logins started with ?returnTo= go straight back to that page instead
  */
 
 'use client';
@@ -12,6 +13,8 @@ import { useEffect, useState } from 'react';
 import { processUAEPassAuth, UAEPassAuthResult } from '@/app/actions/uaePassAuth';
 import UserConfirmation from '@/components/UserConfirmation';
 import { NormalizedUserProfile } from '@/lib/uaePass';
+import { validateEmiratesId } from '@/lib/emiratesId';
+import { AppError, AppErrorDetails, toAppError } from '@/lib/errors';
 
 interface CallbackHandlerProps {
   code: string;
@@ -20,26 +23,33 @@ interface CallbackHandlerProps {
 
 export default function CallbackHandler({ code, state }: CallbackHandlerProps) {
   const [status, setStatus] = useState<'processing' | 'confirming' | 'error'>('processing');
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<AppErrorDetails | null>(null);
   const [user, setUser] = useState<NormalizedUserProfile | null>(null);
 
   useEffect(() => {
+    // Strict mode runs this effect twice; the server answers the repeat with the
+    // first attempt's result (alreadyProcessed), and only the latest run updates the UI
+    let cancelled = false;
+
     async function processCallback() {
       try {
         console.log('[UI] Processing UAE PASS callback...');
         const result: UAEPassAuthResult = await processUAEPassAuth(code, state);
         console.log('[UI] UAE PASS auth result:', result);
+        if (cancelled) return;
 
         if (result.success && result.user) {
           // Check if Emirates ID is missing (SOP1 scenario)
-          const isSOP1 = !result.user.emiratesId || 
-                        result.user.emiratesId === 'N/A' || 
-                        result.user.emiratesId === '';
+          const isSOP1 = validateEmiratesId(result.user.emiratesId).status === 'missing';
           
           if (isSOP1) {
             // SOP1 users - show error message only, no user info or buttons
             setStatus('error');
-            setError('SOP1_ERROR'); // Special flag for SOP1 error
+            setError(new AppError('SOP_INSUFFICIENT', 'No Emirates ID in UAE PASS profile (SOP1 account)').toJSON());
+          } else if (result.returnTo) {
+            // Deep link: back to the page that required login (status stays 'processing')
+            console.log('[UI] Returning to', result.returnTo);
+            window.location.replace(result.returnTo);
           } else {
             // SOP2/SOP3 users - show confirmation screen with user info
             console.log('[UI] User info received, showing confirmation screen');
@@ -48,16 +58,20 @@ export default function CallbackHandler({ code, state }: CallbackHandlerProps) {
           }
         } else {
           setStatus('error');
-          setError(result.error || 'Authentication failed');
+          setError(result.error || new AppError('UNKNOWN', 'Authentication failed').toJSON());
         }
       } catch (err) {
         console.error('[UI] Callback error:', err);
+        if (cancelled) return;
         setStatus('error');
-        setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+        setError(toAppError(err).toJSON());
       }
     }
 
     processCallback();
+    return () => {
+      cancelled = true;
+    };
   }, [code, state]);
 
   if (status === 'processing') {
@@ -103,8 +117,8 @@ export default function CallbackHandler({ code, state }: CallbackHandlerProps) {
   }
 
   // Error state
-  const isSOP1Error = error === 'SOP1_ERROR';
-  
+  const isSOP1Error = error?.code === 'SOP_INSUFFICIENT';
+
   if (isSOP1Error) {
     // SOP1 error - show only message, no user info or buttons
     return (
@@ -180,12 +194,27 @@ export default function CallbackHandler({ code, state }: CallbackHandlerProps) {
             Authentication Failed
           </h1>
           <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
-            {error}
+            {error?.message}
           </p>
-          <div className="mt-6">
+          {error?.supportReference && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-500">
+              Reference: {error.supportReference}
+            </p>
+          )}
+          <div className="mt-6 flex gap-3 justify-center">
+            {error?.retry === 'contact_support' && (
+              <a
+                href={`mailto:support@cmsfinancial.ae?subject=${encodeURIComponent(`UAE PASS login issue ${error.supportReference}`)}`}
+                className="inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+              >
+                Contact Support
+              </a>
+            )}
             <a
               href="/uae-pass/login"
-              className="inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+              className={error?.retry === 'contact_support'
+                ? 'inline-flex items-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700'
+                : 'inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700'}
             >
               Try Again
             </a>
@@ -5,13 +5,41 @@
  */
 
 import { NormalizedUserProfile } from '@/lib/uaePass';
+import {
+  LocalizedProfileField,
+  ProfileLanguage,
+  getProfileValue,
+  getTextDirection,
+} from '@/lib/profileLocale';
+import { formatEmiratesId } from '@/lib/emiratesId';
 import { logout } from '@/app/actions/auth';
 
 interface ProfileDisplayProps {
   user: NormalizedUserProfile;
+  language?: ProfileLanguage; // Language for names and nationality (default English)
 }
 
-export default function ProfileDisplay({ user }: ProfileDisplayProps) {
+export default function ProfileDisplay({ user, language = 'en' }: ProfileDisplayProps) {
+  const otherLanguage: ProfileLanguage = language === 'en' ? 'ar' : 'en';
+
+  // Value in the chosen language, plus the other language underneath when both exist
+  function renderLocalized(field: LocalizedProfileField) {
+    const localized = user.localized?.[field];
+    const valueLanguage = !localized || localized[language] ? language : otherLanguage;
+    const other = valueLanguage === language ? localized?.[otherLanguage] : undefined;
+    return (
+      <>
+        <span dir={getTextDirection(valueLanguage)} lang={valueLanguage}>
+          {getProfileValue(user, field, language) || 'N/A'}
+        </span>
+        {other && (
+          <span dir={getTextDirection(otherLanguage)} lang={otherLanguage} className="block mt-1 text-base font-medium text-gray-500 dark:text-gray-400">
+            {other}
+          </span>
+        )}
+      </>
+    );
+  }
 
   return (
     <div className="rounded-2xl bg-white shadow-xl dark:bg-gray-800 overflow-hidden">
@@ -46,14 +74,14 @@ export default function ProfileDisplay({ user }: ProfileDisplayProps) {
             <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
               <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">First Name</dt>
               <dd className="mt-1 text-xl font-bold text-gray-900 dark:text-white">
-                {user.firstName}
+                {renderLocalized('firstName')}
               </dd>
             </div>
 
             <div className="bg-gray-50 dark:bg-gray-700/50 rounded-lg p-4">
               <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Last Name</dt>
               <dd className="mt-1 text-xl font-bold text-gray-900 dark:text-white">
-                {user.lastName}
+                {renderLocalized('lastName')}
               </dd>
             </div>
 
@@ -63,7 +91,7 @@ export default function ProfileDisplay({ user }: ProfileDisplayProps) {
                 <svg className="h-5 w-5 text-blue-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3.055 11H5a2 2 0 012 2v1a2 2 0 002 2 2 2 0 012 2v2.945M8 3.935V5.5A2.5 2.5 0 0010.5 8h.5a2 2 0 012 2 2 2 0 104 0 2 2 0 012-2h1.064M15 20.488V18a2 2 0 012-2h3.064M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                 </svg>
-                {user.nationality || 'N/A'}
+                <span>{renderLocalized('nationality')}</span>
               </dd>
             </div>
 
@@ -86,7 +114,7 @@ export default function ProfileDisplay({ user }: ProfileDisplayProps) {
           <div>
             <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Emirates ID</dt>
             <dd className="mt-1 text-lg font-semibold text-gray-900 dark:text-white">
-              {user.emiratesId}
+              {formatEmiratesId(user.emiratesId)}
             </dd>
           </div>
 
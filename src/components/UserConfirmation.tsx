@@ -8,16 +8,32 @@
 'use client';
 
 import { NormalizedUserProfile } from '@/lib/uaePass';
+import { ProfileLanguage, getProfileValue } from '@/lib/profileLocale';
+import { validateEmiratesId } from '@/lib/emiratesId';
+import { AppError, AppErrorDetails, ErrorCode, toAppError } from '@/lib/errors';
 import { useState } from 'react';
 import { processCRMIntegration } from '@/app/actions/crmIntegration';
 
 interface UserConfirmationProps {
   user: NormalizedUserProfile;
+  language?: ProfileLanguage; // Language for names and nationality (default English)
 }
 
-export default function UserConfirmation({ user }: UserConfirmationProps) {
-  const [status, setStatus] = useState<'confirming' | 'processing' | 'redirecting' | 'error' | 'sop_error' | 'registration_error' | 'usertype_error'>('confirming');
-  const [error, setError] = useState<string | null>(null);
+type ErrorScreen = 'sop_error' | 'registration_error' | 'usertype_error';
+
+// Dedicated error screens; other codes use the general error screen
+const ERROR_SCREENS: Partial<Record<ErrorCode, ErrorScreen>> = {
+  SOP_INSUFFICIENT: 'sop_error',
+  EMIRATES_ID_INVALID: 'sop_error',
+  USER_TYPE_UNKNOWN: 'usertype_error',
+  CRM_DUPLICATE_PHONE: 'registration_error',
+  CRM_DUPLICATE_EMAIL: 'registration_error',
+  CRM_REGISTRATION_FAILED: 'registration_error',
+};
+
+export default function UserConfirmation({ user, language = 'en' }: UserConfirmationProps) {
+  const [status, setStatus] = useState<'confirming' | 'processing' | 'redirecting' | 'error' | ErrorScreen>('confirming');
+  const [error, setError] = useState<AppErrorDetails | null>(null);
   const [crmLoginUrl, setCrmLoginUrl] = useState<string | null>(null);
   const [isNewUser, setIsNewUser] = useState<boolean>(false);
 
@@ -37,22 +53,18 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
         setTimeout(() => {
           window.location.href = result.crmLoginUrl!;
         }, 1500);
+      } else if (result.error?.code === 'STEP_UP_REQUIRED' && result.stepUpUrl) {
+        // Re-authenticate at a higher assurance level before continuing
+        // (status stays 'processing' while the browser navigates away)
+        window.location.href = result.stepUpUrl;
       } else {
-        // Handle different error types
-        if (result.errorType === 'SOP_LEVEL') {
-          setStatus('sop_error');
-        } else if (result.errorType === 'USER_TYPE_ERROR') {
-          setStatus('usertype_error');
-        } else if (result.errorType === 'REGISTRATION_ERROR') {
-          setStatus('registration_error');
-        } else {
-          setStatus('error');
-        }
-        setError(result.error || 'Failed to connect to CRM. Please try again.');
+        const crmError = result.error || new AppError('CRM_UNAVAILABLE').toJSON();
+        setStatus(ERROR_SCREENS[crmError.code] || 'error');
+        setError(crmError);
       }
     } catch (err) {
       setStatus('error');
-      setError(err instanceof Error ? err.message : 'An unexpected error occurred');
+      setError(toAppError(err).toJSON());
     }
   }
 
@@ -161,8 +173,13 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
             </h1>
             <div className="mt-4 rounded-lg bg-amber-50 dark:bg-amber-900/10 p-4 text-left">
               <p className="text-sm text-amber-800 dark:text-amber-200">
-                {error}
+                {error?.message}
               </p>
+              {error?.supportReference && (
+                <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                  Reference: {error.supportReference}
+                </p>
+              )}
             </div>
             
             <div className="mt-6 space-y-4">
@@ -231,8 +248,13 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
             </h1>
             <div className="mt-4 rounded-lg bg-red-50 dark:bg-red-900/10 p-4 text-left">
               <p className="text-sm text-red-800 dark:text-red-200">
-                {error}
+                {error?.message}
               </p>
+              {error?.supportReference && (
+                <p className="mt-2 text-xs text-red-700 dark:text-red-300">
+                  Reference: {error.supportReference}
+                </p>
+              )}
             </div>
             
             <div className="mt-6 space-y-4">
@@ -252,7 +274,7 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
               
               <div className="flex flex-col gap-3">
                 <a
-                  href="mailto:support@cmsfinancial.ae?subject=UAE PASS Account Type Issue"
+                  href={`mailto:support@cmsfinancial.ae?subject=${encodeURIComponent(`UAE PASS Account Type Issue ${error?.supportReference || ''}`.trim())}`}
                   className="inline-flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-3 text-sm font-medium text-white hover:bg-blue-700 transition-colors"
                 >
                   <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -300,8 +322,13 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
             </h1>
             <div className="mt-4 rounded-lg bg-orange-50 dark:bg-orange-900/10 p-4 text-left">
               <p className="text-sm text-orange-800 dark:text-orange-200">
-                {error}
+                {error?.message}
               </p>
+              {error?.supportReference && (
+                <p className="mt-2 text-xs text-orange-700 dark:text-orange-300">
+                  Reference: {error.supportReference}
+                </p>
+              )}
             </div>
             
             <div className="mt-6 space-y-4">
@@ -318,7 +345,7 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
               
               <div className="flex flex-col gap-3">
                 <a
-                  href="mailto:support@cmsfinancial.ae?subject=UAE PASS Registration Issue&body=Hello,%0A%0AI encountered an issue while trying to register with UAE PASS.%0A%0ADetails:%0AEmail: ${encodeURIComponent(user.email)}%0AMobile: ${encodeURIComponent(user.mobile)}%0AName: ${encodeURIComponent(user.fullName)}%0A%0AError: ${encodeURIComponent(error || 'Registration failed')}%0A%0APlease help me resolve this issue.%0A%0AThank you."
+                  href={`mailto:support@cmsfinancial.ae?subject=UAE PASS Registration Issue&body=Hello,%0A%0AI encountered an issue while trying to register with UAE PASS.%0A%0ADetails:%0AEmail: ${encodeURIComponent(user.email)}%0AMobile: ${encodeURIComponent(user.mobile)}%0AName: ${encodeURIComponent(user.fullName)}%0A%0AError: ${encodeURIComponent(error?.message || 'Registration failed')}%0AReference: ${encodeURIComponent(error?.supportReference || '')}%0A%0APlease help me resolve this issue.%0A%0AThank you.`}
                   className="inline-flex items-center justify-center gap-2 rounded-lg bg-blue-600 px-4 py-3 text-sm font-medium text-white hover:bg-blue-700 transition-colors"
                 >
                   <svg className="h-5 w-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -364,14 +391,22 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
             <h1 className="mt-4 text-2xl font-bold text-gray-900 dark:text-white">
               Connection Failed
             </h1>
-            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{error}</p>
+            <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">{error?.message}</p>
+            {error?.supportReference && (
+              <p className="mt-2 text-xs text-gray-500 dark:text-gray-500">
+                Reference: {error.supportReference}
+              </p>
+            )}
             <div className="mt-6 flex gap-3 justify-center">
-              <button
-                onClick={handleConfirm}
-                className="inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
-              >
-                Try Again
-              </button>
+              {/* Retrying in place only helps for transient failures; others need a new login */}
+              {error?.retry === 'retry' && (
+                <button
+                  onClick={handleConfirm}
+                  className="inline-flex items-center rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-700"
+                >
+                  Try Again
+                </button>
+              )}
               <a
                 href="/uae-pass/login"
                 className="inline-flex items-center rounded-lg border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50 dark:border-gray-600 dark:bg-gray-800 dark:text-gray-300 dark:hover:bg-gray-700"
@@ -386,7 +421,9 @@ export default function UserConfirmation({ user }: UserConfirmationProps) {
   }
 
   // Check if Emirates ID is missing (SOP1) - show warning before they click
-  const isSOP1 = !user.emiratesId || user.emiratesId === 'N/A' || user.emiratesId === '';
+  const emiratesIdVerdict = validateEmiratesId(user.emiratesId, { dateOfBirth: user.dateOfBirth });
+  const isSOP1 = emiratesIdVerdict.status === 'missing';
+  const isInvalidEmiratesId = emiratesIdVerdict.status === 'invalid';
 
   // Confirmation state - show user info
   return (
@@ -468,21 +505,29 @@ access the services
             <dl className="space-y-6">
               <div>
                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Full Name</dt>
-                <dd className="mt-1 text-lg font-semibold text-gray-900 dark:text-white">
-                  {user.fullName}
+                <dd className="mt-1 text-lg font-semibold text-gray-900 dark:text-white" dir="auto">
+                  {getProfileValue(user, 'fullName', language)}
                 </dd>
               </div>
 
               <div>
                 <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Emirates ID</dt>
-                <dd className={`mt-1 text-lg font-semibold ${isSOP1 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-900 dark:text-white'}`}>
-                  {user.emiratesId || 'N/A'}
+                <dd className={`mt-1 text-lg font-semibold ${isSOP1 || isInvalidEmiratesId ? 'text-amber-600 dark:text-amber-400' : 'text-gray-900 dark:text-white'}`}>
+                  {emiratesIdVerdict.status === 'valid' ? emiratesIdVerdict.formatted : user.emiratesId || 'N/A'}
                   {isSOP1 && (
                     <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
                       Required
                     </span>
                   )}
+                  {isInvalidEmiratesId && (
+                    <span className="ml-2 inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 dark:bg-amber-900/20 dark:text-amber-300">
+                      Invalid
+                    </span>
+                  )}
                 </dd>
+                {emiratesIdVerdict.status === 'invalid' && (
+                  <p className="mt-1 text-sm text-amber-700 dark:text-amber-300">{emiratesIdVerdict.message}</p>
+                )}
               </div>
 
               <div>
@@ -513,8 +558,8 @@ access the services
               {user.nationality && (
                 <div>
                   <dt className="text-sm font-medium text-gray-500 dark:text-gray-400">Nationality</dt>
-                  <dd className="mt-1 text-lg font-semibold text-gray-900 dark:text-white">
-                    {user.nationality}
+                  <dd className="mt-1 text-lg font-semibold text-gray-900 dark:text-white" dir="auto">
+                    {getProfileValue(user, 'nationality', language)}
                   </dd>
                 </div>
               )}
@@ -0,0 +1,17 @@
+/**
+ * Server Startup Checks
+ *
+ * Next.js calls register() once when a server instance starts. Throwing here
+ * stops the server, so a misconfigured production deployment never serves
+ * requests.
+ */
+
+export async function register() {
+  // Node.js server only; `next build` runs this too, before runtime secrets exist
+  if (process.env.NEXT_RUNTIME !== 'nodejs' || process.env.NEXT_PHASE === 'phase-production-build') {
+    return;
+  }
+
+  const { assertSessionSecretConfigured } = await import('./lib/keyManager');
+  assertSessionSecretConfigured();
+}
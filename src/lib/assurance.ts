@@ -0,0 +1,109 @@
+/**
+ * Assurance Level Helpers
+ *
+ * Compares the authentication level (ACR) of a session against what a page or
+ * action requires, and starts a step-up re-authentication when it falls short.
+ *
+ * UAE PASS levels, lowest to highest:
+ * - SOP1: urn:safelayer:tws:policies:authentication:level:low
+ * - SOP2: urn:safelayer:tws:policies:authentication:level:substantial
+ * - SOP3: urn:safelayer:tws:policies:authentication:level:high
+ */
+
+import { redirect } from 'next/navigation';
+import { ACR_VALUES, AssuranceLevel } from './uaePass';
+import { getSession, SessionData } from './session';
+
+// Rank of each level, used for "at least" comparisons
+const ASSURANCE_RANK: Record<AssuranceLevel, number> = {
+  SOP1: 1,
+  SOP2: 2,
+  SOP3: 3,
+};
+
+const LOGIN_ROUTE = '/api/uae-pass/login';
+
+/**
+ * Parse a user-supplied level (e.g. "SOP3" or "sop3")
+ * Returns null if the value is not a known assurance level
+ */
+export function parseAssuranceLevel(value: string | null | undefined): AssuranceLevel | null {
+  if (!value) return null;
+  const upper = value.trim().toUpperCase();
+  return upper in ASSURANCE_RANK ? (upper as AssuranceLevel) : null;
+}
+
+/**
+ * Map an ACR claim value to its assurance level
+ * Returns null for missing or unrecognized values
+ */
+export function acrToAssuranceLevel(acr: string | undefined): AssuranceLevel | null {
+  if (!acr) return null;
+  const match = (Object.keys(ACR_VALUES) as AssuranceLevel[]).find(level => ACR_VALUES[level] === acr);
+  return match || null;
+}
+
+/**
+ * Check whether an ACR value satisfies the required level
+ * A missing or unrecognized ACR never satisfies a requirement above SOP1
+ */
+export function meetsAssuranceLevel(acr: string | undefined, required: AssuranceLevel): boolean {
+  if (required === 'SOP1') return true;
+  const current = acrToAssuranceLevel(acr);
+  return current !== null && ASSURANCE_RANK[current] >= ASSURANCE_RANK[required];
+}
+
+/**
+ * Check whether a user type (SOP level of the UAE PASS account) is at least the required level
+ * Unknown or missing user types only satisfy SOP1
+ */
+export function meetsSopLevel(userType: string | undefined, required: AssuranceLevel): boolean {
+  if (required === 'SOP1') return true;
+  const current = parseAssuranceLevel(userType);
+  return current !== null && ASSURANCE_RANK[current] >= ASSURANCE_RANK[required];
+}
+
+/**
+ * Build the login URL, optionally at a level and returning to a page afterwards
+ */
+export function buildLoginUrl(returnTo?: string, level?: AssuranceLevel): string {
+  const params = new URLSearchParams();
+  if (level) params.set('level', level);
+  if (returnTo) params.set('returnTo', returnTo);
+  const query = params.toString();
+  return query ? `${LOGIN_ROUTE}?${query}` : LOGIN_ROUTE;
+}
+
+/**
+ * Build the login URL that starts a step-up re-authentication at the given level
+ *
+ * @param returnTo - Same-origin path to return to afterwards (see returnTo.ts)
+ */
+export function buildStepUpUrl(level: AssuranceLevel, returnTo?: string): string {
+  const params = new URLSearchParams({ level, stepUp: '1' });
+  if (returnTo) params.set('returnTo', returnTo);
+  return `${LOGIN_ROUTE}?${params.toString()}`;
+}
+
+/**
+ * Require a session authenticated at (at least) the given level
+ *
+ * For Server Components and Server Actions. Redirects to login when there is
+ * no session, and to a step-up re-authentication when the session's ACR is
+ * below the required level.
+ *
+ * @param returnTo - Path of the current page, to come back to after login
+ */
+export async function requireAssuranceLevel(level: AssuranceLevel, returnTo?: string): Promise<SessionData> {
+  const session = await getSession();
+
+  if (!session) {
+    redirect(buildLoginUrl(returnTo, level));
+  }
+
+  if (!meetsAssuranceLevel(session.user.acr, level)) {
+    redirect(buildStepUpUrl(level, returnTo));
+  }
+
+  return session;
+}
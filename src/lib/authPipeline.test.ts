@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ACR_VALUES, NormalizedUserProfile, TokenResponse } from './uaePass';
+import { LoginTransaction } from './loginTransaction';
+import { SessionData } from './session';
+import { runAuthPipeline } from './authPipeline';
+
+const mocks = vi.hoisted(() => ({
+  // Login transaction cookies of the calling browser, by state
+  transactions: new Map<string, LoginTransaction>(),
+  // Session of the calling browser
+  currentSession: null as SessionData | null,
+  exchangeCodeForTokens: vi.fn(),
+  acr: '',
+}));
+
+vi.mock('./loginTransaction', () => ({
+  consumeLoginTransaction: async (state: string) => mocks.transactions.get(state) ?? null,
+  hasPendingLoginTransactions: async () => mocks.transactions.size > 0,
+}));
+
+vi.mock('./session', () => ({
+  createSession: async (user: NormalizedUserProfile): Promise<Partial<SessionData>> => {
+    mocks.currentSession = { user, createdAt: Date.now() } as SessionData;
+    return mocks.currentSession;
+  },
+  deleteSession: async () => {
+    mocks.currentSession = null;
+  },
+  getSession: async () => mocks.currentSession,
+}));
+
+vi.mock('./uaePass', async importOriginal => ({
+  ...(await importOriginal<typeof import('./uaePass')>()),
+  exchangeCodeForTokens: mocks.exchangeCodeForTokens,
+  validateIdToken: async () => ({ sub: 'user-1', acr: mocks.acr }),
+  fetchUserInfo: async () => ({ sub: 'user-1' }),
+  normalizeUserProfile: (userInfo: { sub: string; acr?: string }) => ({ sub: userInfo.sub, acr: userInfo.acr }),
+}));
+
+const TOKENS: TokenResponse = { access_token: 'access', id_token: 'id', token_type: 'Bearer', expires_in: 3600 };
+
+let counter = 0;
+function unique(prefix: string): string {
+  counter++;
+  return `${prefix}-${Date.now()}-${counter}`;
+}
+
+// Starts a login in the calling browser and returns its state
+function startLogin(options: { acrLevel?: string; returnTo?: string } = {}): string {
+  const state = unique('state');
+  mocks.transactions.set(state, {
+    state,
+    nonce: 'nonce',
+    codeVerifier: 'verifier',
+    acrLevel: options.acrLevel || 'SOP1',
+    returnTo: options.returnTo,
+    createdAt: Date.now(),
+  });
+  return state;
+}
+
+// Switches to a browser with no cookies at all
+function otherBrowser(): void {
+  mocks.transactions.clear();
+  mocks.currentSession = null;
+}
+
+describe('repeated authorization codes', () => {
+  beforeEach(() => {
+    otherBrowser();
+    mocks.acr = ACR_VALUES.SOP2;
+    mocks.exchangeCodeForTokens.mockReset();
+    mocks.exchangeCodeForTokens.mockResolvedValue(TOKENS);
+  });
+
+  it('shares a login in progress with a repeat from the same browser, including returnTo', async () => {
+    const code = unique('code');
+    const state = startLogin({ returnTo: '/account/settings' });
+
+    const [first, repeat] = await Promise.all([runAuthPipeline(code, state), runAuthPipeline(code, state)]);
+
+    expect(mocks.exchangeCodeForTokens).toHaveBeenCalledTimes(1);
+    expect(first.success).toBe(true);
+    expect(repeat).toMatchObject({ success: true, alreadyProcessed: true });
+    expect(repeat.context.returnTo).toBe('/account/settings');
+    expect(repeat.context.profile?.sub).toBe('user-1');
+  });
+
+  it('does not give a login in progress to a replayed callback from another browser', async () => {
+    const code = unique('code');
+    const state = startLogin();
+    let releaseExchange!: (tokens: TokenResponse) => void;
+    mocks.exchangeCodeForTokens.mockReturnValue(new Promise(resolve => { releaseExchange = resolve; }));
+
+    const first = runAuthPipeline(code, state);
+    await vi.waitFor(() => expect(mocks.exchangeCodeForTokens).toHaveBeenCalled());
+
+    // Same URL (code and state), but without the login transaction
+    otherBrowser();
+    const replay = await runAuthPipeline(code, state);
+    releaseExchange(TOKENS);
+    await first;
+
+    expect(replay.success).toBe(false);
+    expect(replay.context.profile).toBeUndefined();
+    expect(mocks.exchangeCodeForTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not share a login with a repeat for another state', async () => {
+    const code = unique('code');
+    const state = startLogin();
+    const otherState = startLogin();
+
+    const [, repeat] = await Promise.all([runAuthPipeline(code, state), runAuthPipeline(code, otherState)]);
+
+    expect(repeat).toMatchObject({ success: false, error: { code: 'LOGIN_ALREADY_PROCESSED' } });
+    expect(repeat.context.profile).toBeUndefined();
+  });
+
+  it('answers a refresh after the login with its result and returnTo', async () => {
+    const code = unique('code');
+    const state = startLogin({ returnTo: '/account' });
+    await runAuthPipeline(code, state);
+
+    // The transaction cookie is gone after the first response; the session is there
+    mocks.transactions.clear();
+    const repeat = await runAuthPipeline(code, state);
+
+    expect(repeat).toMatchObject({ success: true, alreadyProcessed: true });
+    expect(repeat.context.returnTo).toBe('/account');
+    expect(mocks.exchangeCodeForTokens).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not report success for a refresh in a browser without the new session', async () => {
+    const code = unique('code');
+    const state = startLogin();
+    await runAuthPipeline(code, state);
+
+    otherBrowser();
+    mocks.currentSession = { user: { sub: 'someone-else' }, createdAt: Date.now() } as SessionData;
+    const replay = await runAuthPipeline(code, state);
+
+    expect(replay.success).toBe(false);
+    expect(replay.context.profile).toBeUndefined();
+  });
+
+  it('repeats a failed step-up as a failure, not as the older session', async () => {
+    // Signed in at SOP1; the SOP3 step-up comes back with SOP2
+    const earlierSession = { user: { sub: 'user-1', acr: ACR_VALUES.SOP1 }, createdAt: Date.now() - 60000 } as SessionData;
+    mocks.currentSession = earlierSession;
+    const code = unique('code');
+    const state = startLogin({ acrLevel: 'SOP3' });
+
+    const first = await runAuthPipeline(code, state);
+    mocks.transactions.clear();
+    const repeat = await runAuthPipeline(code, state);
+
+    expect(first).toMatchObject({ success: false, error: { code: 'ASSURANCE_LEVEL_NOT_MET' } });
+    expect(repeat).toMatchObject({ success: false, error: { code: 'ASSURANCE_LEVEL_NOT_MET' } });
+    expect(mocks.currentSession).toBe(earlierSession);
+  });
+
+  it('checks the state before using up the code', async () => {
+    const code = unique('code');
+    const state = startLogin();
+    const transaction = mocks.transactions.get(state)!;
+
+    // A forged callback with this code but no transaction fails...
+    otherBrowser();
+    expect(await runAuthPipeline(code, state)).toMatchObject({ success: false, error: { code: 'LOGIN_NOT_FOUND' } });
+
+    // ...and the real browser can still redeem it
+    mocks.transactions.set(state, transaction);
+    expect(await runAuthPipeline(code, state)).toMatchObject({ success: true });
+    expect(mocks.exchangeCodeForTokens).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * UAE PASS Authentication Pipeline
+ *
+ * The one login flow behind the callback: login transaction (state, nonce,
+ * PKCE), code exchange, ID token validation, assurance level check, userinfo
+ * and session. Integrations (e.g. CRM onboarding) plug in as hooks instead
+ * of copying the flow:
+ *
+ * - onTokens: tokens received and ID token validated
+ * - onProfile: userinfo fetched and normalized
+ * - beforeSession: last chance to reject the login before the session exists
+ * - afterSession: session created
+ * - onError: the login failed (called with the AppError, never throws)
+ *
+ * A hook that throws fails the login with that error (AppErrors keep their
+ * code); a failure in afterSession also ends the new session.
+ *
+ * Each authorization code is processed once, after its state was checked. A
+ * repeat (page refresh, React strict mode) gets the first attempt's result,
+ * marked alreadyProcessed - never a second token exchange - but only in the
+ * browser that ran the login: with the same state and either its login
+ * transaction (still in progress) or the session it created (finished).
+ */
+
+import crypto from 'crypto';
+import { JWTPayload } from 'jose';
+import {
+  exchangeCodeForTokens,
+  validateIdToken,
+  getIdTokenValidationSettings,
+  fetchUserInfo,
+  normalizeUserProfile,
+  AssuranceLevel,
+  NormalizedUserProfile,
+  TokenResponse,
+  UAEPassUserProfile,
+} from './uaePass';
+import { createSession, deleteSession, getSession, SessionData } from './session';
+import { markAuthorizationCodeUsed } from './usedCodeStore';
+import { consumeLoginTransaction, hasPendingLoginTransactions, LoginTransaction } from './loginTransaction';
+import { parseAssuranceLevel, meetsAssuranceLevel } from './assurance';
+import { AppError, AppErrorDetails, toAppError } from './errors';
+import { authLogger as logger } from './logger';
+
+// Everything known about the login so far; filled in as the pipeline runs
+export interface AuthPipelineContext {
+  code: string;
+  state: string;
+  requestedLevel: AssuranceLevel;
+  returnTo?: string; // Validated ?returnTo= target of this login
+  tokens?: TokenResponse;
+  idTokenClaims?: JWTPayload; // Absent when lenient validation let a bad ID token through
+  acr?: string;
+  userInfo?: UAEPassUserProfile;
+  profile?: NormalizedUserProfile;
+  session?: SessionData; // Created session (afterSession)
+  results: Record<string, unknown>; // Output of hooks, keyed by hook name
+}
+
+export type AuthPipelineStage = 'onTokens' | 'onProfile' | 'beforeSession' | 'afterSession';
+
+export interface AuthPipelineHook {
+  name: string;
+  onTokens?(context: AuthPipelineContext): Promise<void> | void;
+  onProfile?(context: AuthPipelineContext): Promise<void> | void;
+  beforeSession?(context: AuthPipelineContext): Promise<void> | void;
+  afterSession?(context: AuthPipelineContext): Promise<void> | void;
+  onError?(error: AppError, context: AuthPipelineContext): Promise<void> | void;
+}
+
+export type AuthPipelineResult =
+  | { success: true; context: AuthPipelineContext; alreadyProcessed?: boolean }
+  | { success: false; error: AppErrorDetails; context: AuthPipelineContext };
+
+// Authorization codes are redeemed once; remembered for as long as a login transaction lives
+const USED_CODE_TTL_SECONDS = 600;
+
+// A login in progress in this process, for repeats that arrive meanwhile
+interface PendingLogin {
+  stateHash: string;
+  result: Promise<AuthPipelineResult>;
+}
+
+// Outcome of a finished login, for repeats after it (e.g. a page refresh)
+interface CompletedLogin {
+  stateHash: string;
+  expiresAt: number; // ms since epoch
+  requestedLevel: AssuranceLevel;
+  returnTo?: string;
+  results: Record<string, unknown>;
+  error?: AppErrorDetails; // The login failed
+  session?: { sub: string; createdAt: number }; // The session it created
+}
+
+// Keyed by a hash of the code. In this process only: a repeat that reaches
+// another app instance is told the login was already processed.
+const pendingLogins = new Map<string, PendingLogin>();
+const completedLogins = new Map<string, CompletedLogin>();
+
+// Hooks that run on every login, in registration order
+const registeredHooks: AuthPipelineHook[] = [];
+
+/**
+ * Register a hook for every login; registering the same name again replaces it
+ * Returns a function that unregisters the hook
+ */
+export function registerAuthHook(hook: AuthPipelineHook): () => void {
+  const existing = registeredHooks.findIndex(registered => registered.name === hook.name);
+  if (existing >= 0) {
+    registeredHooks.splice(existing, 1, hook);
+  } else {
+    registeredHooks.push(hook);
+  }
+  return () => {
+    const index = registeredHooks.indexOf(hook);
+    if (index >= 0) registeredHooks.splice(index, 1);
+  };
+}
+
+async function runStage(hooks: AuthPipelineHook[], stage: AuthPipelineStage, context: AuthPipelineContext): Promise<void> {
+  for (const hook of hooks) {
+    const handler = hook[stage];
+    if (handler) {
+      logger.debug(`Running ${stage} hook:`, hook.name);
+      await handler.call(hook, context);
+    }
+  }
+}
+
+function hashValue(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('base64url');
+}
+
+/**
+ * Run the login for a callback's code and state
+ *
+ * @param options.hooks - Hooks for this call only, run after the registered ones
+ */
+export async function runAuthPipeline(
+  code: string,
+  state: string,
+  options: { hooks?: AuthPipelineHook[] } = {}
+): Promise<AuthPipelineResult> {
+  const hooks = [...registeredHooks, ...(options.hooks || [])];
+  const context: AuthPipelineContext = { code, state, requestedLevel: 'SOP1', results: {} };
+  const codeKey = hashValue(code);
+  const stateHash = hashValue(state);
+
+  let transaction: LoginTransaction | null;
+  try {
+    // State parameter (CSRF protection), checked before the code is recorded as
+    // used; the transaction is deleted here, so a replayed callback finds nothing
+    transaction = await consumeLoginTransaction(state);
+    if (!transaction) {
+      const repeat = await handleRepeatedCode(codeKey, context, stateHash, false);
+      if (repeat) {
+        return repeat;
+      }
+      if (await hasPendingLoginTransactions()) {
+        throw new AppError('STATE_MISMATCH', 'Invalid state parameter. Possible CSRF attack detected.');
+      }
+      // Typical when the UAE PASS app returns to a different browser than the one that started the login
+      throw new AppError('LOGIN_NOT_FOUND', 'State validation failed: no login in progress in this browser');
+    }
+
+    if (!(await markAuthorizationCodeUsed(code, USED_CODE_TTL_SECONDS))) {
+      const repeat = await handleRepeatedCode(codeKey, context, stateHash, true);
+      if (repeat) {
+        return repeat;
+      }
+      throw new AppError('LOGIN_ALREADY_PROCESSED', 'Authorization code was already processed');
+    }
+  } catch (error) {
+    return failLogin(error, context, hooks);
+  }
+
+  const pending = processLogin(context, transaction, hooks);
+  pendingLogins.set(codeKey, { stateHash, result: pending });
+  try {
+    const result = await pending;
+    recordCompletedLogin(codeKey, stateHash, result);
+    return result;
+  } finally {
+    pendingLogins.delete(codeKey);
+  }
+}
+
+function recordCompletedLogin(codeKey: string, stateHash: string, result: AuthPipelineResult): void {
+  const now = Date.now();
+  for (const [key, completed] of completedLogins) {
+    if (completed.expiresAt <= now) completedLogins.delete(key);
+  }
+
+  const { context } = result;
+  completedLogins.set(codeKey, {
+    stateHash,
+    expiresAt: now + USED_CODE_TTL_SECONDS * 1000,
+    requestedLevel: context.requestedLevel,
+    returnTo: context.returnTo,
+    results: context.results,
+    error: result.success ? undefined : result.error,
+    session: result.success && context.session
+      ? { sub: context.session.user.sub, createdAt: context.session.createdAt }
+      : undefined,
+  });
+}
+
+/**
+ * Answer a callback whose code was already processed, without redeeming it again
+ *
+ * The first attempt's outcome is only given to the browser that ran it: the
+ * state must match, and a login still in progress is only shared with a
+ * request that had its transaction, a finished one only with its session.
+ *
+ * @param hasTransaction - The request presented the login transaction for its state
+ * @returns null when this request gets nothing from the first attempt
+ */
+async function handleRepeatedCode(
+  codeKey: string,
+  context: AuthPipelineContext,
+  stateHash: string,
+  hasTransaction: boolean
+): Promise<AuthPipelineResult | null> {
+  // Still running in this process (e.g. React strict mode): share its outcome
+  const pending = pendingLogins.get(codeKey);
+  if (pending) {
+    if (!hasTransaction || pending.stateHash !== stateHash) {
+      return null;
+    }
+    logger.warn('Authorization code already being processed, sharing the first result');
+    const result = await pending.result;
+    return result.success ? { ...result, alreadyProcessed: true } : result;
+  }
+
+  // Finished earlier (e.g. page refresh)
+  const completed = completedLogins.get(codeKey);
+  if (!completed || completed.expiresAt <= Date.now() || completed.stateHash !== stateHash) {
+    return null;
+  }
+  logger.warn('Authorization code already processed, returning the first result');
+  const repeatContext: AuthPipelineContext = {
+    ...context,
+    requestedLevel: completed.requestedLevel,
+    returnTo: completed.returnTo,
+    results: { ...completed.results },
+  };
+  if (completed.error) {
+    return { success: false, error: completed.error, context: repeatContext };
+  }
+
+  const session = await getSession();
+  if (!session || !completed.session
+    || session.user.sub !== completed.session.sub || session.createdAt !== completed.session.createdAt) {
+    return null;
+  }
+  return { success: true, context: { ...repeatContext, profile: session.user, session }, alreadyProcessed: true };
+}
+
+/**
+ * Report a failed login to the onError hooks and turn it into a result
+ */
+async function failLogin(error: unknown, context: AuthPipelineContext, hooks: AuthPipelineHook[]): Promise<AuthPipelineResult> {
+  const appError = toAppError(error);
+  logger.error(`Login failed (${appError.code}, ${appError.supportReference}):`, appError.message);
+
+  for (const hook of hooks) {
+    try {
+      await hook.onError?.(appError, context);
+    } catch (hookError) {
+      logger.error(`onError hook ${hook.name} failed:`, hookError);
+    }
+  }
+
+  return { success: false, error: appError.toJSON(), context };
+}
+
+async function processLogin(
+  context: AuthPipelineContext,
+  transaction: LoginTransaction,
+  hooks: AuthPipelineHook[]
+): Promise<AuthPipelineResult> {
+  const { code } = context;
+  let sessionCreated = false;
+
+  try {
+    const { nonce, codeVerifier } = transaction;
+    context.requestedLevel = parseAssuranceLevel(transaction.acrLevel) || 'SOP1';
+    context.returnTo = transaction.returnTo;
+
+    // Code exchange
+    const tokens = await exchangeCodeForTokens(code, codeVerifier);
+    context.tokens = tokens;
+
+    // ID token: strict mode rejects the login on any failure; lenient mode
+    // (sandbox only) continues without trusting any ID token claim
+    try {
+      if (!tokens.id_token) {
+        throw new AppError('ID_TOKEN_INVALID', 'ID token validation failed: token response did not include an id_token');
+      }
+      context.idTokenClaims = await validateIdToken(tokens.id_token, nonce, { accessToken: tokens.access_token });
+      context.acr = context.idTokenClaims.acr as string | undefined;
+      logger.info('ID token validated, acr:', context.acr);
+    } catch (validationError) {
+      if (getIdTokenValidationSettings().mode === 'strict') {
+        throw validationError;
+      }
+      logger.warn('ID token validation failed (lenient mode, ACR not trusted):', validationError);
+    }
+
+    // The authentication must meet the level requested at login (step-up)
+    if (!meetsAssuranceLevel(context.acr, context.requestedLevel)) {
+      throw new AppError('ASSURANCE_LEVEL_NOT_MET', `Requested ${context.requestedLevel}, got ACR ${context.acr}`, {
+        userMessage: `This action requires a higher UAE PASS authentication level (${context.requestedLevel}). Please sign in again and complete the stronger verification.`,
+      });
+    }
+
+    await runStage(hooks, 'onTokens', context);
+
+    // Profile
+    const userInfo = await fetchUserInfo(tokens.access_token);
+    logger.debug('User info fields:', Object.keys(userInfo));
+    if (context.acr) {
+      userInfo.acr = context.acr;
+    }
+    context.userInfo = userInfo;
+    context.profile = normalizeUserProfile(userInfo);
+    logger.info('Profile normalized, user type:', context.profile.userType);
+
+    await runStage(hooks, 'onProfile', context);
+    await runStage(hooks, 'beforeSession', context);
+
+    // Session
+    context.session = await createSession(context.profile, {
+      accessToken: tokens.access_token,
+      idToken: tokens.id_token || '',
+      expiresIn: tokens.expires_in || 3600,
+      refreshToken: tokens.refresh_token,
+    });
+    sessionCreated = true;
+
+    await runStage(hooks, 'afterSession', context);
+
+    return { success: true, context };
+  } catch (error) {
+    try {
+      if (sessionCreated) {
+        await deleteSession();
+        context.session = undefined;
+      }
+    } catch (cleanupError) {
+      logger.error('Failed to end the new session:', cleanupError);
+    }
+
+    return failLogin(error, context, hooks);
+  }
+}
@@ -0,0 +1,122 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { decodeJwt, jwtVerify } from 'jose';
+import {
+  CLIENT_ASSERTION_TYPE,
+  createRequestObject,
+  getClientAssertionPublicKey,
+  getClientAuthentication,
+  getClientAuthMethod,
+} from './clientAuth';
+
+const TOKEN_ENDPOINT = 'https://id.example.ae/token';
+
+let keyDir: string;
+let keyFile: string;
+
+beforeAll(() => {
+  keyDir = fs.mkdtempSync(path.join(os.tmpdir(), 'client-auth-'));
+  keyFile = path.join(keyDir, 'client.pem');
+  const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  fs.writeFileSync(keyFile, privateKey.export({ type: 'pkcs8', format: 'pem' }));
+});
+
+afterAll(() => {
+  fs.rmSync(keyDir, { recursive: true, force: true });
+});
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getClientAuthMethod', () => {
+  it('defaults to client_secret_post and rejects unknown methods', () => {
+    vi.stubEnv('UAE_PASS_CLIENT_AUTH_METHOD', '');
+    expect(getClientAuthMethod()).toBe('client_secret_post');
+
+    vi.stubEnv('UAE_PASS_CLIENT_AUTH_METHOD', 'tls_client_auth');
+    expect(() => getClientAuthMethod()).toThrow('Invalid UAE_PASS_CLIENT_AUTH_METHOD');
+  });
+});
+
+describe('getClientAuthentication', () => {
+  it('sends the secret in the body with client_secret_post', async () => {
+    const auth = await getClientAuthentication(
+      { clientId: 'client', clientSecret: 'secret', clientAuthMethod: 'client_secret_post' },
+      TOKEN_ENDPOINT
+    );
+
+    expect(auth).toEqual({ params: { client_id: 'client', client_secret: 'secret' }, headers: {}, replayable: true });
+  });
+
+  it('form-encodes both parts before base64 with client_secret_basic', async () => {
+    const auth = await getClientAuthentication(
+      { clientId: 'my client', clientSecret: 'p@ss:w/rd+', clientAuthMethod: 'client_secret_basic' },
+      TOKEN_ENDPOINT
+    );
+    const decoded = Buffer.from(auth.headers.Authorization.replace(/^Basic /, ''), 'base64').toString();
+
+    expect(auth.params).toEqual({});
+    expect(decoded).toBe('my+client:p%40ss%3Aw%2Frd%2B');
+    expect(auth.replayable).toBe(true);
+  });
+
+  it('signs a single-use assertion for the audience with private_key_jwt', async () => {
+    vi.stubEnv('UAE_PASS_CLIENT_KEY_FILE', keyFile);
+    const credentials = { clientId: 'client', clientSecret: '', clientAuthMethod: 'private_key_jwt' as const };
+
+    const first = await getClientAuthentication(credentials, TOKEN_ENDPOINT);
+    const second = await getClientAuthentication(credentials, TOKEN_ENDPOINT);
+    const { payload, protectedHeader } = await jwtVerify(first.params.client_assertion, getClientAssertionPublicKey(), {
+      issuer: 'client',
+      subject: 'client',
+      audience: TOKEN_ENDPOINT,
+    });
+
+    expect(first.params.client_id).toBe('client');
+    expect(first.params.client_assertion_type).toBe(CLIENT_ASSERTION_TYPE);
+    expect(first.params.client_secret).toBeUndefined();
+    expect(first.replayable).toBe(false);
+    expect(protectedHeader.alg).toBe('ES256');
+    expect(payload.exp! - payload.iat!).toBe(60);
+    expect(payload.jti).not.toBe(decodeJwt(second.params.client_assertion).jti);
+  });
+
+  it('uses UAE_PASS_CLIENT_ASSERTION_AUDIENCE when set', async () => {
+    vi.stubEnv('UAE_PASS_CLIENT_KEY_FILE', keyFile);
+    vi.stubEnv('UAE_PASS_CLIENT_ASSERTION_AUDIENCE', 'https://id.example.ae');
+
+    const auth = await getClientAuthentication(
+      { clientId: 'client', clientSecret: '', clientAuthMethod: 'private_key_jwt' },
+      TOKEN_ENDPOINT
+    );
+
+    expect(decodeJwt(auth.params.client_assertion).aud).toBe('https://id.example.ae');
+  });
+
+  it('requires a key file for private_key_jwt', async () => {
+    vi.stubEnv('UAE_PASS_CLIENT_KEY_FILE', '');
+
+    await expect(
+      getClientAuthentication({ clientId: 'client', clientSecret: '', clientAuthMethod: 'private_key_jwt' }, TOKEN_ENDPOINT)
+    ).rejects.toThrow('UAE_PASS_CLIENT_KEY_FILE must be set');
+  });
+});
+
+describe('createRequestObject', () => {
+  it('signs the authorization parameters for the issuer', async () => {
+    vi.stubEnv('UAE_PASS_CLIENT_KEY_FILE', keyFile);
+
+    const jwt = await createRequestObject('client', 'https://id.example.ae', { scope: 'openid', state: 'abc' });
+    const { payload, protectedHeader } = await jwtVerify(jwt, getClientAssertionPublicKey(), {
+      issuer: 'client',
+      audience: 'https://id.example.ae',
+    });
+
+    expect(protectedHeader.typ).toBe('oauth-authz-req+jwt');
+    expect(payload).toMatchObject({ scope: 'openid', state: 'abc' });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * OAuth Client Authentication
+ *
+ * How this app authenticates to the UAE PASS token and revocation endpoints,
+ * selected with UAE_PASS_CLIENT_AUTH_METHOD:
+ * - client_secret_post (default): client_id and client_secret in the form body
+ * - client_secret_basic: client_id and client_secret in a Basic authorization header
+ * - private_key_jwt: a short-lived JWT signed with our private key, so no
+ *   shared secret is sent at all. The key is loaded from UAE_PASS_CLIENT_KEY_FILE
+ *   (PEM, JWK or JWKS) and its public half must be registered with UAE PASS.
+ *
+ * The same key signs JWT-secured authorization requests (request objects).
+ *
+ * Reference: OpenID Connect Core 1.0 Section 9 - Client Authentication
+ * Reference: RFC 7523 - JWT Profile for OAuth 2.0 Client Authentication
+ * Reference: RFC 9101 - JWT-Secured Authorization Request (JAR)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { SignJWT } from 'jose';
+import { uaePassLogger as logger } from './logger';
+
+export type ClientAuthMethod = 'client_secret_post' | 'client_secret_basic' | 'private_key_jwt';
+
+export const CLIENT_AUTH_METHODS: readonly ClientAuthMethod[] = [
+  'client_secret_post',
+  'client_secret_basic',
+  'private_key_jwt',
+];
+
+export const CLIENT_ASSERTION_TYPE = 'urn:ietf:params:oauth:client-assertion-type:jwt-bearer';
+
+const CLIENT_ASSERTION_TTL_SECONDS = 60;
+const REQUEST_OBJECT_TTL_SECONDS = 300;
+
+// The client being authenticated
+export interface ClientCredentials {
+  clientId: string;
+  clientSecret: string; // Unused (and may be empty) with private_key_jwt
+  clientAuthMethod: ClientAuthMethod;
+}
+
+// Form parameters and headers to add to a token or revocation request
+export interface ClientAuthentication {
+  params: Record<string, string>;
+  headers: Record<string, string>;
+  // Can be sent again as is; a client assertion's jti is single-use (RFC 7523 Section 3)
+  replayable: boolean;
+}
+
+interface ClientAssertionKey {
+  privateKey: crypto.KeyObject;
+  keyId?: string;
+  alg: string;
+}
+
+// Loaded once per key file
+let assertionKey: { filePath: string; key: ClientAssertionKey } | null = null;
+
+/**
+ * Client authentication method from UAE_PASS_CLIENT_AUTH_METHOD
+ */
+export function getClientAuthMethod(): ClientAuthMethod {
+  const value = process.env.UAE_PASS_CLIENT_AUTH_METHOD || 'client_secret_post';
+  if (!CLIENT_AUTH_METHODS.includes(value as ClientAuthMethod)) {
+    throw new Error(
+      `Invalid UAE_PASS_CLIENT_AUTH_METHOD "${value}". Expected one of: ${CLIENT_AUTH_METHODS.join(', ')}`
+    );
+  }
+  return value as ClientAuthMethod;
+}
+
+/**
+ * JWS algorithm matching a key, unless one is configured
+ */
+function getDefaultAlgorithm(key: crypto.KeyObject): string {
+  switch (key.asymmetricKeyType) {
+    case 'rsa':
+      return 'RS256';
+    case 'rsa-pss':
+      return 'PS256';
+    case 'ec': {
+      const curve = key.asymmetricKeyDetails?.namedCurve;
+      if (curve === 'prime256v1') return 'ES256';
+      if (curve === 'secp384r1') return 'ES384';
+      if (curve === 'secp521r1') return 'ES512';
+      throw new Error(`Unsupported EC curve for client assertions: ${curve}`);
+    }
+    case 'ed25519':
+      return 'EdDSA';
+    default:
+      throw new Error(`Unsupported key type for client assertions: ${key.asymmetricKeyType}`);
+  }
+}
+
+/**
+ * Parse a private key file: PEM, a single JWK, or a JWKS (the key with
+ * UAE_PASS_CLIENT_KEY_ID, or the first private key)
+ */
+function parseKeyFile(contents: string): { privateKey: crypto.KeyObject; jwk?: crypto.JsonWebKey } {
+  if (!contents.trimStart().startsWith('{')) {
+    return {
+      privateKey: crypto.createPrivateKey({
+        key: contents,
+        format: 'pem',
+        passphrase: process.env.UAE_PASS_CLIENT_KEY_PASSPHRASE || undefined,
+      }),
+    };
+  }
+
+  const parsed = JSON.parse(contents) as crypto.JsonWebKey & { keys?: crypto.JsonWebKey[] };
+  const keyId = process.env.UAE_PASS_CLIENT_KEY_ID;
+  const jwk = Array.isArray(parsed.keys)
+    ? parsed.keys.find((key) => key.d && (!keyId || key.kid === keyId))
+    : parsed;
+
+  if (!jwk?.d) {
+    throw new Error(keyId ? `No private key with kid "${keyId}"` : 'No private key (JWK "d" member) found');
+  }
+  return { privateKey: crypto.createPrivateKey({ key: jwk, format: 'jwk' }), jwk };
+}
+
+/**
+ * Private key for signing client assertions, from UAE_PASS_CLIENT_KEY_FILE
+ */
+function getClientAssertionKey(): ClientAssertionKey {
+  const filePath = process.env.UAE_PASS_CLIENT_KEY_FILE;
+  if (!filePath) {
+    throw new Error('UAE_PASS_CLIENT_KEY_FILE must be set for private_key_jwt client authentication and signed request objects');
+  }
+  if (assertionKey?.filePath === filePath) {
+    return assertionKey.key;
+  }
+
+  let parsed: ReturnType<typeof parseKeyFile>;
+  try {
+    parsed = parseKeyFile(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to load client key file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  const key: ClientAssertionKey = {
+    privateKey: parsed.privateKey,
+    keyId: process.env.UAE_PASS_CLIENT_KEY_ID || (parsed.jwk?.kid as string | undefined),
+    alg: process.env.UAE_PASS_CLIENT_KEY_ALG || (parsed.jwk?.alg as string | undefined) ||
+      getDefaultAlgorithm(parsed.privateKey),
+  };
+  logger.info('Loaded client assertion key:', { filePath, kid: key.keyId, alg: key.alg });
+
+  assertionKey = { filePath, key };
+  return key;
+}
+
+/**
+ * Whether a client key is configured (required for private_key_jwt and request objects)
+ */
+export function hasClientKey(): boolean {
+  return !!process.env.UAE_PASS_CLIENT_KEY_FILE;
+}
+
+/**
+ * Public half of the client assertion key, e.g. to register with UAE PASS
+ * or for the local mock to verify assertions and request objects
+ */
+export function getClientAssertionPublicKey(): crypto.KeyObject {
+  return crypto.createPublicKey(getClientAssertionKey().privateKey);
+}
+
+/**
+ * Sign a client assertion (iss = sub = client_id) for an audience
+ */
+async function createClientAssertion(clientId: string, audience: string): Promise<string> {
+  const { privateKey, keyId, alg } = getClientAssertionKey();
+  const now = Math.floor(Date.now() / 1000);
+
+  return new SignJWT({})
+    .setProtectedHeader({ alg, typ: 'JWT', ...(keyId ? { kid: keyId } : {}) })
+    .setIssuer(clientId)
+    .setSubject(clientId)
+    .setAudience(audience)
+    .setJti(crypto.randomUUID())
+    .setIssuedAt(now)
+    .setExpirationTime(now + CLIENT_ASSERTION_TTL_SECONDS)
+    .sign(privateKey);
+}
+
+/**
+ * Sign authorization request parameters as a request object (iss = client_id,
+ * aud = the provider's issuer)
+ */
+export async function createRequestObject(
+  clientId: string,
+  audience: string,
+  claims: Record<string, string | number>
+): Promise<string> {
+  const { privateKey, keyId, alg } = getClientAssertionKey();
+  const now = Math.floor(Date.now() / 1000);
+
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg, typ: 'oauth-authz-req+jwt', ...(keyId ? { kid: keyId } : {}) })
+    .setIssuer(clientId)
+    .setAudience(audience)
+    .setJti(crypto.randomUUID())
+    .setIssuedAt(now)
+    .setNotBefore(now)
+    .setExpirationTime(now + REQUEST_OBJECT_TTL_SECONDS)
+    .sign(privateKey);
+}
+
+/**
+ * Form parameters and headers that authenticate the client to the token,
+ * pushed authorization request or revocation endpoint
+ *
+ * `audience` is the provider's token endpoint, which OIDC names as the
+ * assertion audience, or its issuer for the pushed authorization request
+ * (RFC 9126); UAE_PASS_CLIENT_ASSERTION_AUDIENCE overrides it for providers
+ * that expect something else.
+ */
+export async function getClientAuthentication(
+  credentials: ClientCredentials,
+  audience: string
+): Promise<ClientAuthentication> {
+  const { clientId, clientSecret, clientAuthMethod } = credentials;
+
+  switch (clientAuthMethod) {
+    case 'client_secret_basic': {
+      // RFC 6749 Section 2.3.1: both parts are form-encoded before base64
+      const encode = (value: string) => encodeURIComponent(value).replace(/%20/g, '+');
+      const basic = Buffer.from(`${encode(clientId)}:${encode(clientSecret)}`).toString('base64');
+      return { params: {}, headers: { Authorization: `Basic ${basic}` }, replayable: true };
+    }
+
+    case 'private_key_jwt':
+      return {
+        params: {
+          client_id: clientId,
+          client_assertion_type: CLIENT_ASSERTION_TYPE,
+          client_assertion: await createClientAssertion(
+            clientId,
+            process.env.UAE_PASS_CLIENT_ASSERTION_AUDIENCE || audience
+          ),
+        },
+        headers: {},
+        replayable: false,
+      };
+
+    case 'client_secret_post':
+    default:
+      return { params: { client_id: clientId, client_secret: clientSecret }, headers: {}, replayable: true };
+  }
+}
@@ -7,12 +7,17 @@
 
 import { NormalizedUserProfile, validateUserType } from './uaePass';
 import { crmLogger as logger } from './logger';
+import { HttpRequestError, getHttpTransport } from './httpTransport';
+import { ProfileLanguage, getProfileValue, parseProfileLanguage } from './profileLocale';
+import { validateEmiratesId } from './emiratesId';
+import { AppError, AppErrorDetails, ErrorCode, toAppError } from './errors';
 
 // CRM API Configuration
 export interface CRMConfig {
   baseUrl: string;
   apiToken: string;
   apiVersion: string;
+  customFieldsLanguage: ProfileLanguage; // Language of names/nationality written to custom fields
 }
 
 // CRM User from API response
@@ -217,6 +222,30 @@ export function parseCRMErrorResponse(responseText: string): string {
   }
 }
 
+/**
+ * Error code for a failed CRM registration response
+ * Duplicate phone/email come back as "already registered" validation errors on that field
+ */
+export function getCRMErrorCode(status: number, responseText: string): ErrorCode {
+  if (status >= 500) {
+    return 'CRM_UNAVAILABLE';
+  }
+
+  try {
+    const errorData: CRMErrorResponse = JSON.parse(responseText);
+    const children = errorData.errors?.children || {};
+    const isAlreadyRegistered = (field: string) =>
+      Array.isArray(children[field]?.errors) &&
+      children[field].errors.some((message: string) => message.toLowerCase().includes('already registered'));
+
+    if (isAlreadyRegistered('phone')) return 'CRM_DUPLICATE_PHONE';
+    if (isAlreadyRegistered('email')) return 'CRM_DUPLICATE_EMAIL';
+  } catch {
+    // Not JSON - fall through
+  }
+  return 'CRM_REGISTRATION_FAILED';
+}
+
 /**
  * Convert CRM field names and error messages to user-friendly messages
  */
@@ -255,22 +284,42 @@ function getFriendlyErrorMessage(field: string, errorMessage: string): string {
   return `${friendlyField.charAt(0).toUpperCase() + friendlyField.slice(1)}: ${errorMessage}`;
 }
 
+// API token accepted by the mock CRM when CRM_API_TOKEN is not set
+const MOCK_CRM_API_TOKEN = 'mock-crm-token';
+
 /**
  * Get CRM configuration from environment variables
  */
 export function getCRMConfig(): CRMConfig {
-  const baseUrl = process.env.CRM_BASE_URL || 'https://my.cmsfinancial.ae';
-  const apiToken = process.env.CRM_API_TOKEN || '';
+  // CRM_ENVIRONMENT=local-mock targets the mock CRM served by this app (src/lib/mockCrm.ts)
+  const environment = process.env.CRM_ENVIRONMENT || 'live';
+  if (environment !== 'live' && environment !== 'local-mock') {
+    throw new Error(`Invalid CRM_ENVIRONMENT "${environment}". Expected one of: live, local-mock`);
+  }
+  const isLocalMock = environment === 'local-mock';
+
+  const baseUrl = process.env.CRM_BASE_URL ||
+    (isLocalMock
+      ? (process.env.CRM_MOCK_BASE_URL || 'http://localhost:3000/api/mock-crm').replace(/\/+$/, '')
+      : 'https://my.cmsfinancial.ae');
+  const apiToken = process.env.CRM_API_TOKEN || (isLocalMock ? MOCK_CRM_API_TOKEN : '');
   const apiVersion = process.env.CRM_API_VERSION || '1.0.0';
 
   if (!apiToken) {
     throw new Error('CRM_API_TOKEN environment variable is not set');
   }
 
+  const languageSetting = process.env.CRM_CUSTOM_FIELDS_LANGUAGE;
+  const customFieldsLanguage = parseProfileLanguage(languageSetting);
+  if (languageSetting && !customFieldsLanguage) {
+    throw new Error(`Invalid CRM_CUSTOM_FIELDS_LANGUAGE "${languageSetting}". Expected one of: en, ar`);
+  }
+
   return {
     baseUrl,
     apiToken,
     apiVersion,
+    customFieldsLanguage: customFieldsLanguage || 'en',
   };
 }
 
@@ -298,8 +347,9 @@ export async function findUserByEmail(email: string): Promise<CRMUser | null> {
   console.log('[CRM] Finding user by email:', email);
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
+      idempotent: true, // Search only - safe to retry
       headers: {
         'Accept': 'application/json',
         'Authorization': `Bearer ${config.apiToken}`,
@@ -340,8 +390,9 @@ export async function findUserByPhone(phone: string): Promise<CRMUser | null> {
   console.log('[CRM] Finding user by phone:', phoneNumber);
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
+      idempotent: true, // Search only - safe to retry
       headers: {
         'Accept': 'application/json',
         'Authorization': `Bearer ${config.apiToken}`,
@@ -379,8 +430,9 @@ export async function findUserByEmiratesIdEmail(email: string): Promise<CRMUser
   console.log('[CRM] Finding user by Emirates ID email:', email);
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
+      idempotent: true, // Search only - safe to retry
       headers: {
         'Accept': 'application/json',
         'Authorization': `Bearer ${config.apiToken}`,
@@ -422,8 +474,9 @@ export async function findUserByEmiratesIdUuid(uuid: string): Promise<CRMUser |
   console.log('[CRM] Finding user by Emirates ID UUID:', uuid);
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
+      idempotent: true, // Search only - safe to retry
       headers: {
         'Accept': 'application/json',
         'Authorization': `Bearer ${config.apiToken}`,
@@ -465,8 +518,9 @@ export async function findUserByEmiratesId(emiratesId: string): Promise<CRMUser
   console.log('[CRM] Finding user by Emirates ID:', emiratesId);
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
+      idempotent: true, // Search only - safe to retry
       headers: {
         'Accept': 'application/json',
         'Authorization': `Bearer ${config.apiToken}`,
@@ -556,18 +610,25 @@ export async function findExistingUser(uaePassUser: NormalizedUserProfile): Prom
 
 /**
  * Update user's Emirates ID details in CRM
+ *
+ * @param language - Language for the full name and nationality fields
+ *   (defaults to CRM_CUSTOM_FIELDS_LANGUAGE); falls back to the other language when missing
  */
 export async function updateUserEmiratesIdDetails(
   userId: number,
-  uaePassUser: NormalizedUserProfile
+  uaePassUser: NormalizedUserProfile,
+  language?: ProfileLanguage
 ): Promise<boolean> {
   const config = getCRMConfig();
   const url = `${config.baseUrl}/rest/users/update?version=${config.apiVersion}`;
+  const fieldsLanguage = language || config.customFieldsLanguage;
+  const fullName = getProfileValue(uaePassUser, 'fullName', fieldsLanguage);
+  const nationality = getProfileValue(uaePassUser, 'nationality', fieldsLanguage);
 
   const customFields: EmiratesIdCustomFields = {
     custom_client_emirateid_uuid: uaePassUser.uuid || '',
     custom_client_emirateid_email: uaePassUser.email !== 'N/A' ? uaePassUser.email : '',
-    custom_client_emirateid_fullname: uaePassUser.fullName !== 'N/A' ? uaePassUser.fullName : '',
+    custom_client_emirateid_fullname: fullName && fullName !== 'N/A' ? fullName : '',
     custom_client_emirateid_mobile: uaePassUser.mobile !== 'N/A' ? uaePassUser.mobile : '',
   };
 
@@ -577,8 +638,8 @@ export async function updateUserEmiratesIdDetails(
   }
 
   // Only add nationality if available
-  if (uaePassUser.nationality) {
-    customFields.custom_client_emirateid_nationality = uaePassUser.nationality;
+  if (nationality) {
+    customFields.custom_client_emirateid_nationality = nationality;
   }
 
   const updateRequest: UserUpdateRequest = {
@@ -589,8 +650,9 @@ export async function updateUserEmiratesIdDetails(
   console.log('[CRM] Updating user Emirates ID details:', JSON.stringify(updateRequest, null, 2));
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
+      idempotent: true, // Sets the same fields again on retry
       headers: {
         'Accept': 'application/json',
         'Authorization': `Bearer ${config.apiToken}`,
@@ -661,7 +723,7 @@ export async function registerUser(userData: {
   });
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
       headers: {
         'Accept': 'application/json',
@@ -679,7 +741,11 @@ export async function registerUser(userData: {
     if (!response.ok) {
       // Parse the error response to get friendly error message
       const friendlyError = parseCRMErrorResponse(responseText);
-      throw new Error(friendlyError);
+      const code = getCRMErrorCode(response.status, responseText);
+      throw new AppError(code, friendlyError, {
+        // Field-level messages are safe to show for validation failures other than duplicates
+        userMessage: code === 'CRM_REGISTRATION_FAILED' ? friendlyError : undefined,
+      });
     }
 
     const data = JSON.parse(responseText);
@@ -688,7 +754,7 @@ export async function registerUser(userData: {
     return data as CRMUser;
   } catch (error) {
     console.error('[CRM] Error registering user:', error);
-    throw error;
+    throw toAppError(error, error instanceof HttpRequestError ? 'CRM_UNAVAILABLE' : 'CRM_REGISTRATION_FAILED');
   }
 }
 
@@ -717,7 +783,7 @@ export async function getDirectLoginUrl(
   console.log('[CRM] Getting direct login URL for user ID:', userId);
 
   try {
-    const response = await fetch(url, {
+    const response = await getHttpTransport('CRM').request(url, {
       method: 'POST',
       headers: {
         'Accept': 'application/json',
@@ -732,7 +798,7 @@ export async function getDirectLoginUrl(
     if (!response.ok) {
       const errorText = await response.text();
       console.error('[CRM] Direct login error response:', errorText);
-      throw new Error(`CRM direct login failed: ${response.status} ${response.statusText}`);
+      throw new AppError('CRM_UNAVAILABLE', `CRM direct login failed: ${response.status} ${response.statusText}`);
     }
 
     const data: DirectLoginResponse = await response.json();
@@ -741,24 +807,28 @@ export async function getDirectLoginUrl(
     return data.url;
   } catch (error) {
     console.error('[CRM] Error getting direct login URL:', error);
-    throw error;
+    throw toAppError(error, 'CRM_UNAVAILABLE');
   }
 }
 
 /**
  * Validate SOP level - Emirates ID is required (SOP2 or SOP3)
- * Returns error message if validation fails, null if valid
+ * The Emirates ID must pass structural validation (check digit, birth year vs. date of birth)
+ * Returns the error if validation fails (SOP_INSUFFICIENT or EMIRATES_ID_INVALID), null if valid
  */
-export function validateSOPLevel(uaePassUser: NormalizedUserProfile): string | null {
+export function validateSOPLevel(uaePassUser: NormalizedUserProfile): AppError | null {
+  const verdict = validateEmiratesId(uaePassUser.emiratesId, { dateOfBirth: uaePassUser.dateOfBirth });
+
   // Check if Emirates ID is present (indicates SOP2 or SOP3)
-  if (!uaePassUser.emiratesId || uaePassUser.emiratesId === 'N/A' || uaePassUser.emiratesId === '') {
-    return 'Emirates ID verification required. Your UAE PASS account must be verified (SOP2 or SOP3) to continue. Please upgrade your UAE PASS account and try again.';
+  if (verdict.status === 'missing') {
+    return new AppError('SOP_INSUFFICIENT', 'No Emirates ID in UAE PASS profile (SOP1 account)');
   }
 
-  // Validate Emirates ID format (should be 15 digits, may have dashes)
-  const emiratesIdClean = uaePassUser.emiratesId.replace(/-/g, '');
-  if (!/^\d{15}$/.test(emiratesIdClean)) {
-    return 'Invalid Emirates ID format. Please ensure your UAE PASS account has a valid Emirates ID.';
+  if (verdict.status === 'invalid') {
+    logger.warn('Emirates ID failed validation:', verdict.issue);
+    return new AppError('EMIRATES_ID_INVALID', `Emirates ID failed validation: ${verdict.issue}`, {
+      userMessage: verdict.message,
+    });
   }
 
   return null; // Valid
@@ -780,8 +850,7 @@ export async function handleCRMAuth(uaePassUser: NormalizedUserProfile): Promise
   loginUrl?: string;
   isNewUser: boolean;
   crmUserId?: number;
-  error?: string;
-  errorType?: 'SOP_LEVEL' | 'USER_TYPE_ERROR' | 'CRM_ERROR' | 'REGISTRATION_ERROR' | 'UNKNOWN';
+  error?: AppErrorDetails;
 }> {
   console.log('========================================');
   console.log('[CRM] Starting CRM authentication flow');
@@ -799,8 +868,7 @@ export async function handleCRMAuth(uaePassUser: NormalizedUserProfile): Promise
       return {
         success: false,
         isNewUser: false,
-        error: userTypeError,
-        errorType: 'USER_TYPE_ERROR',
+        error: new AppError('USER_TYPE_UNKNOWN', userTypeError).toJSON(),
       };
     }
     console.log('[CRM] User type validation passed:', uaePassUser.userType);
@@ -809,12 +877,11 @@ export async function handleCRMAuth(uaePassUser: NormalizedUserProfile): Promise
     console.log('[CRM] Step 2: Validating SOP level...');
     const sopError = validateSOPLevel(uaePassUser);
     if (sopError) {
-      console.log('[CRM] SOP validation failed:', sopError);
+      console.log('[CRM] SOP validation failed:', sopError.code, sopError.message);
       return {
         success: false,
         isNewUser: false,
-        error: sopError,
-        errorType: 'SOP_LEVEL',
+        error: sopError.toJSON(),
       };
     }
     console.log('[CRM] SOP validation passed (SOP2/SOP3 confirmed)');
@@ -840,12 +907,12 @@ export async function handleCRMAuth(uaePassUser: NormalizedUserProfile): Promise
         });
         console.log('[CRM] New user registered with ID:', crmUser.id);
       } catch (regError) {
-        console.error('[CRM] Registration failed:', regError);
+        const error = toAppError(regError, 'CRM_REGISTRATION_FAILED');
+        console.error(`[CRM] Registration failed (${error.code}, ${error.supportReference}):`, error.message);
         return {
           success: false,
           isNewUser: true,
-          error: regError instanceof Error ? regError.message : 'Registration failed. Please try again.',
-          errorType: 'REGISTRATION_ERROR',
+          error: error.toJSON(),
         };
       }
     } else {
@@ -873,16 +940,16 @@ export async function handleCRMAuth(uaePassUser: NormalizedUserProfile): Promise
       crmUserId: crmUser.id,
     };
   } catch (error) {
+    const appError = toAppError(error, 'CRM_UNAVAILABLE');
     console.error('========================================');
     console.error('[CRM] CRM authentication flow failed');
-    console.error('[CRM] Error:', error);
+    console.error('[CRM] Error:', appError.code, appError.supportReference, error);
     console.error('========================================');
 
     return {
       success: false,
       isNewUser: false,
-      error: error instanceof Error ? error.message : 'Unknown CRM error',
-      errorType: 'CRM_ERROR',
+      error: appError.toJSON(),
     };
   }
 }
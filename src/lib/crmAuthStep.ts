@@ -0,0 +1,92 @@
+/**
+ * CRM Onboarding Step for the Authentication Pipeline
+ *
+ * After the session exists, finds or registers the user in FXBackoffice and
+ * gets a direct login URL. A CRM failure never fails the UAE PASS login: the
+ * outcome, including any error, is left in the context for the caller.
+ *
+ * Like processCRMIntegration, the step requires CRM_REQUIRED_ASSURANCE_LEVEL
+ * when set: a login below it skips CRM with a STEP_UP_REQUIRED error.
+ */
+
+import { AuthPipelineContext, AuthPipelineHook } from './authPipeline';
+import { handleCRMAuth } from './crmApi';
+import { parseAssuranceLevel, meetsAssuranceLevel, buildStepUpUrl } from './assurance';
+import { AppError, AppErrorDetails, toAppError } from './errors';
+import { crmLogger as logger } from './logger';
+
+const CRM_STEP_NAME = 'crm';
+
+export interface CRMStepResult {
+  loginUrl?: string;
+  isNewUser: boolean;
+  error?: AppErrorDetails;
+  stepUpUrl?: string; // Set when error.code is STEP_UP_REQUIRED
+}
+
+/**
+ * Check an authentication level (ACR) against CRM_REQUIRED_ASSURANCE_LEVEL
+ * Returns the STEP_UP_REQUIRED error and step-up URL when it falls short, otherwise null
+ */
+export function checkCRMAssuranceLevel(acr: string | undefined): { error: AppErrorDetails; stepUpUrl: string } | null {
+  const requiredLevel = parseAssuranceLevel(process.env.CRM_REQUIRED_ASSURANCE_LEVEL);
+  if (!requiredLevel || meetsAssuranceLevel(acr, requiredLevel)) {
+    return null;
+  }
+  return {
+    error: new AppError('STEP_UP_REQUIRED', `Session ACR ${acr} is below ${requiredLevel}`, {
+      userMessage: `Please re-authenticate with UAE PASS at level ${requiredLevel} to continue.`,
+    }).toJSON(),
+    stepUpUrl: buildStepUpUrl(requiredLevel),
+  };
+}
+
+export const crmAuthStep: AuthPipelineHook = {
+  name: CRM_STEP_NAME,
+
+  onProfile(context) {
+    // High-risk action: below the required level, CRM is skipped in afterSession
+    const stepUp = checkCRMAssuranceLevel(context.profile!.acr);
+    if (stepUp) {
+      logger.warn('CRM step requires step-up:', stepUp.error.message);
+      const result: CRMStepResult = { isNewUser: false, ...stepUp };
+      context.results[CRM_STEP_NAME] = result;
+    }
+  },
+
+  async afterSession(context) {
+    if (getCRMStepResult(context)?.error?.code === 'STEP_UP_REQUIRED') {
+      return;
+    }
+
+    let result: CRMStepResult;
+    try {
+      const crmResult = await handleCRMAuth(context.profile!);
+      result = {
+        loginUrl: crmResult.success ? crmResult.loginUrl : undefined,
+        isNewUser: crmResult.isNewUser,
+        error: crmResult.success && crmResult.loginUrl
+          ? undefined
+          : crmResult.error || new AppError('CRM_UNAVAILABLE', 'CRM returned no login URL').toJSON(),
+      };
+    } catch (crmError) {
+      const error = toAppError(crmError, 'CRM_UNAVAILABLE');
+      logger.error(`CRM step failed (${error.code}, ${error.supportReference}):`, error.message);
+      result = { isNewUser: false, error: error.toJSON() };
+    }
+
+    if (result.error) {
+      logger.error('CRM step did not produce a login URL:', result.error.code);
+    } else {
+      logger.info('CRM step complete, new user:', result.isNewUser);
+    }
+    context.results[CRM_STEP_NAME] = result;
+  },
+};
+
+/**
+ * Outcome of the CRM step, if it ran
+ */
+export function getCRMStepResult(context: AuthPipelineContext): CRMStepResult | undefined {
+  return context.results[CRM_STEP_NAME] as CRMStepResult | undefined;
+}
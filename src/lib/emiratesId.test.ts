@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { formatEmiratesId, isValidLuhn, parseEmiratesId, validateEmiratesId } from './emiratesId';
+
+const VALID_ID = '784199012345676';
+
+describe('isValidLuhn', () => {
+  it('accepts a number with the right check digit', () => {
+    expect(isValidLuhn(VALID_ID)).toBe(true);
+    expect(isValidLuhn('79927398713')).toBe(true);
+  });
+
+  it('rejects a wrong check digit or transposed digits', () => {
+    expect(isValidLuhn('784199012345677')).toBe(false);
+    expect(isValidLuhn('784199021345676')).toBe(false);
+  });
+
+  it('rejects anything but digits', () => {
+    expect(isValidLuhn('')).toBe(false);
+    expect(isValidLuhn('784-1990-1234567-6')).toBe(false);
+  });
+});
+
+describe('parseEmiratesId', () => {
+  it('splits a number with or without separators', () => {
+    const expected = { digits: VALID_ID, countryCode: '784', birthYear: 1990, serial: '1234567', checkDigit: 6 };
+    expect(parseEmiratesId(VALID_ID)).toEqual(expected);
+    expect(parseEmiratesId('784-1990-1234567-6')).toEqual(expected);
+    expect(parseEmiratesId('784 1990 1234567 6')).toEqual(expected);
+  });
+
+  it('returns null unless there are exactly 15 digits', () => {
+    expect(parseEmiratesId('78419901234567')).toBeNull();
+    expect(parseEmiratesId('7841990123456760')).toBeNull();
+    expect(parseEmiratesId('784-1990-123456A-6')).toBeNull();
+    expect(parseEmiratesId(undefined)).toBeNull();
+  });
+});
+
+describe('formatEmiratesId', () => {
+  it('formats 15 digits and leaves anything else unchanged', () => {
+    expect(formatEmiratesId(VALID_ID)).toBe('784-1990-1234567-6');
+    expect(formatEmiratesId('N/A')).toBe('N/A');
+  });
+});
+
+describe('validateEmiratesId', () => {
+  it('accepts a valid number and checks the year against the date of birth', () => {
+    expect(validateEmiratesId('784-1990-1234567-6', { dateOfBirth: '15/03/1990' })).toMatchObject({
+      status: 'valid',
+      formatted: '784-1990-1234567-6',
+      birthYearChecked: true,
+    });
+    expect(validateEmiratesId(VALID_ID)).toMatchObject({ status: 'valid', birthYearChecked: false });
+  });
+
+  it('treats empty and N/A as missing', () => {
+    expect(validateEmiratesId('')).toEqual({ status: 'missing' });
+    expect(validateEmiratesId('  ')).toEqual({ status: 'missing' });
+    expect(validateEmiratesId('N/A')).toEqual({ status: 'missing' });
+  });
+
+  it.each([
+    ['78419901234567', 'INVALID_FORMAT'],
+    ['123199012345676', 'INVALID_COUNTRY_CODE'],
+    ['784189912345676', 'INVALID_BIRTH_YEAR'],
+    ['784999912345676', 'INVALID_BIRTH_YEAR'],
+    ['784199012345677', 'CHECKSUM_MISMATCH'],
+  ])('rejects %s as %s', (value, issue) => {
+    expect(validateEmiratesId(value)).toMatchObject({ status: 'invalid', issue });
+  });
+
+  it('rejects a year that does not match the date of birth', () => {
+    expect(validateEmiratesId(VALID_ID, { dateOfBirth: '1991-03-15' })).toMatchObject({
+      status: 'invalid',
+      issue: 'BIRTH_YEAR_MISMATCH',
+    });
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Emirates ID Helpers
+ *
+ * Structural validation of Emirates ID numbers as returned by UAE PASS (`idn`):
+ *
+ *   784-YYYY-NNNNNNN-C
+ *   784      UAE country code (ISO 3166 numeric)
+ *   YYYY     Year of birth
+ *   NNNNNNN  Serial number
+ *   C        Luhn check digit over the first 14 digits
+ *
+ * Free of server-only imports so client components can use it.
+ */
+
+const UAE_COUNTRY_CODE = '784';
+const MIN_BIRTH_YEAR = 1900;
+
+// Why an Emirates ID was rejected
+export type EmiratesIdIssue =
+  | 'INVALID_FORMAT'
+  | 'INVALID_COUNTRY_CODE'
+  | 'INVALID_BIRTH_YEAR'
+  | 'CHECKSUM_MISMATCH'
+  | 'BIRTH_YEAR_MISMATCH';
+
+// The parts of an Emirates ID
+export interface ParsedEmiratesId {
+  digits: string; // 15 digits, no separators
+  countryCode: string;
+  birthYear: number;
+  serial: string;
+  checkDigit: number;
+}
+
+// Result of validating an Emirates ID
+export type EmiratesIdVerdict =
+  | {
+      status: 'valid';
+      emiratesId: ParsedEmiratesId;
+      formatted: string; // 784-YYYY-NNNNNNN-C
+      birthYearChecked: boolean; // False when no date of birth was available to compare
+    }
+  | { status: 'missing' }
+  | { status: 'invalid'; issue: EmiratesIdIssue; message: string };
+
+const ISSUE_MESSAGES: Record<EmiratesIdIssue, string> = {
+  INVALID_FORMAT: 'Invalid Emirates ID format. Please ensure your UAE PASS account has a valid Emirates ID.',
+  INVALID_COUNTRY_CODE: 'Invalid Emirates ID. The number must start with 784.',
+  INVALID_BIRTH_YEAR: 'Invalid Emirates ID. The year in the number is not a valid year of birth.',
+  CHECKSUM_MISMATCH: 'Invalid Emirates ID. The check digit does not match the number.',
+  BIRTH_YEAR_MISMATCH: 'Your Emirates ID does not match the date of birth on your UAE PASS account. Please contact support.',
+};
+
+/**
+ * Strip separators (dashes, spaces); returns the raw value for anything else
+ */
+function normalizeDigits(value: string): string {
+  return value.replace(/[\s-]/g, '');
+}
+
+/**
+ * Luhn (mod 10) check over a string of digits, including its check digit
+ */
+export function isValidLuhn(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    // Double every second digit from the right
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Split an Emirates ID into its parts
+ * Returns null unless the value is 15 digits (dashes and spaces allowed);
+ * does not check the country code, year or check digit
+ */
+export function parseEmiratesId(value: string | null | undefined): ParsedEmiratesId | null {
+  if (!value) return null;
+  const digits = normalizeDigits(value);
+  if (!/^\d{15}$/.test(digits)) return null;
+
+  return {
+    digits,
+    countryCode: digits.slice(0, 3),
+    birthYear: Number(digits.slice(3, 7)),
+    serial: digits.slice(7, 14),
+    checkDigit: Number(digits[14]),
+  };
+}
+
+/**
+ * Format an Emirates ID for display (784-YYYY-NNNNNNN-C)
+ * Values that are not 15 digits are returned unchanged
+ */
+export function formatEmiratesId(value: string | null | undefined): string {
+  const parsed = parseEmiratesId(value);
+  if (!parsed) return value || '';
+  return `${parsed.countryCode}-${parsed.birthYear}-${parsed.serial}-${parsed.checkDigit}`;
+}
+
+/**
+ * Extract the year from a date of birth
+ * Accepts the UAE PASS format (DD/MM/YYYY) as well as ISO dates (YYYY-MM-DD)
+ */
+export function extractBirthYear(dateOfBirth: string | null | undefined): number | null {
+  const match = dateOfBirth?.match(/\b(\d{4})\b/);
+  return match ? Number(match[1]) : null;
+}
+
+/**
+ * Validate an Emirates ID: structure, country code, year, Luhn check digit,
+ * and (when a date of birth is given) that the embedded year matches it
+ *
+ * 'N/A' and empty values count as missing.
+ */
+export function validateEmiratesId(
+  value: string | null | undefined,
+  options: { dateOfBirth?: string } = {}
+): EmiratesIdVerdict {
+  if (!value || value.trim() === '' || value === 'N/A') {
+    return { status: 'missing' };
+  }
+
+  const invalid = (issue: EmiratesIdIssue): EmiratesIdVerdict => ({
+    status: 'invalid',
+    issue,
+    message: ISSUE_MESSAGES[issue],
+  });
+
+  const parsed = parseEmiratesId(value);
+  if (!parsed) return invalid('INVALID_FORMAT');
+  if (parsed.countryCode !== UAE_COUNTRY_CODE) return invalid('INVALID_COUNTRY_CODE');
+  if (parsed.birthYear < MIN_BIRTH_YEAR || parsed.birthYear > new Date().getFullYear()) {
+    return invalid('INVALID_BIRTH_YEAR');
+  }
+  if (!isValidLuhn(parsed.digits)) return invalid('CHECKSUM_MISMATCH');
+
+  const dobYear = extractBirthYear(options.dateOfBirth);
+  if (dobYear !== null && dobYear !== parsed.birthYear) {
+    return invalid('BIRTH_YEAR_MISMATCH');
+  }
+
+  return {
+    status: 'valid',
+    emiratesId: parsed,
+    formatted: formatEmiratesId(parsed.digits),
+    birthYearChecked: dobYear !== null,
+  };
+}
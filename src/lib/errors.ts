@@ -0,0 +1,205 @@
+/**
+ * Application Errors
+ *
+ * One error hierarchy for the UAE PASS login and CRM flows. Every failure
+ * carries a stable code with a user-safe message and a retry hint, plus a
+ * support reference that is logged on the server and shown to the user so
+ * support can find the matching log entry.
+ *
+ * Free of server-only imports so client components can use it. Server actions
+ * return AppErrorDetails (plain data), not AppError instances.
+ */
+
+// What the user can do about an error
+export type RetryHint =
+  | 'retry' // Try the same action again
+  | 'login_again' // Start a new UAE PASS login
+  | 'step_up' // Log in again at a higher assurance level
+  | 'upgrade_account' // Upgrade the UAE PASS account (verify Emirates ID)
+  | 'contact_support'; // Nothing the user can fix themselves
+
+interface ErrorDefinition {
+  message: string; // User-safe message
+  retry: RetryHint;
+}
+
+const ERROR_DEFINITIONS = {
+  // UAE PASS login
+  LOGIN_NOT_FOUND: {
+    message: 'We could not find your login in this browser. If you approved the request in the UAE PASS app, make sure it returns to the same browser you started from, then try again.',
+    retry: 'login_again',
+  },
+  STATE_MISMATCH: {
+    message: 'Your login request could not be verified. Please start the login again.',
+    retry: 'login_again',
+  },
+  LOGIN_EXPIRED: {
+    message: 'Your login request has expired. Please try logging in again.',
+    retry: 'login_again',
+  },
+  LOGIN_ALREADY_PROCESSED: {
+    message: 'This UAE PASS login has already been processed. If you are not signed in, please start the login again.',
+    retry: 'login_again',
+  },
+  TOKEN_EXCHANGE_TIMEOUT: {
+    message: 'UAE PASS took too long to respond. Please check your network connection and log in again.',
+    retry: 'login_again',
+  },
+  TOKEN_EXCHANGE_FAILED: {
+    message: 'We could not complete your UAE PASS login. Please log in again.',
+    retry: 'login_again',
+  },
+  INVALID_CLIENT: {
+    message: 'UAE PASS login is not available right now because of a configuration problem on our side. Please contact support.',
+    retry: 'contact_support',
+  },
+  INVALID_GRANT: {
+    message: 'This login has expired or was already used. Please log in again.',
+    retry: 'login_again',
+  },
+  UAE_PASS_UNREACHABLE: {
+    message: 'We could not reach UAE PASS. Please try again in a few minutes.',
+    retry: 'retry',
+  },
+  ID_TOKEN_INVALID: {
+    message: 'We could not verify your UAE PASS login. Please log in again.',
+    retry: 'login_again',
+  },
+  USERINFO_FAILED: {
+    message: 'We could not load your details from UAE PASS. Please log in again.',
+    retry: 'login_again',
+  },
+  TOKEN_REFRESH_FAILED: {
+    message: 'Your session has expired. Please log in again.',
+    retry: 'login_again',
+  },
+  ASSURANCE_LEVEL_NOT_MET: {
+    message: 'This action requires a higher UAE PASS authentication level. Please sign in again and complete the stronger verification.',
+    retry: 'step_up',
+  },
+  STEP_UP_REQUIRED: {
+    message: 'Please re-authenticate with UAE PASS at a higher level to continue.',
+    retry: 'step_up',
+  },
+  SESSION_MISSING: {
+    message: 'No active session. Please log in again.',
+    retry: 'login_again',
+  },
+
+  // Account eligibility
+  USER_TYPE_UNKNOWN: {
+    message: 'Unknown user type. Your UAE PASS account type is not recognized. Please contact support or try again with a valid UAE PASS account.',
+    retry: 'contact_support',
+  },
+  SOP_INSUFFICIENT: {
+    message: 'Emirates ID verification required. Your UAE PASS account must be verified (SOP2 or SOP3) to continue. Please upgrade your UAE PASS account and try again.',
+    retry: 'upgrade_account',
+  },
+  EMIRATES_ID_INVALID: {
+    message: 'Invalid Emirates ID. Please ensure your UAE PASS account has a valid Emirates ID.',
+    retry: 'contact_support',
+  },
+
+  // CRM
+  CRM_DUPLICATE_PHONE: {
+    message: 'This phone number is already registered in our system. If you already have an account, please contact support for assistance.',
+    retry: 'contact_support',
+  },
+  CRM_DUPLICATE_EMAIL: {
+    message: 'This email address is already registered in our system. If you already have an account, please contact support for assistance.',
+    retry: 'contact_support',
+  },
+  CRM_REGISTRATION_FAILED: {
+    message: 'Registration failed. Please try again or contact support.',
+    retry: 'contact_support',
+  },
+  CRM_UNAVAILABLE: {
+    message: 'We could not connect to CMS Financial. Please try again.',
+    retry: 'retry',
+  },
+
+  UNKNOWN: {
+    message: 'Something went wrong. Please try again.',
+    retry: 'retry',
+  },
+} satisfies Record<string, ErrorDefinition>;
+
+export type ErrorCode = keyof typeof ERROR_DEFINITIONS;
+
+// Serializable form of an AppError (server action results, JSON responses)
+export interface AppErrorDetails {
+  code: ErrorCode;
+  message: string; // User-safe
+  retry: RetryHint;
+  supportReference: string;
+}
+
+export interface AppErrorOptions {
+  userMessage?: string; // Overrides the code's default user-safe message
+  cause?: unknown;
+}
+
+/**
+ * Short reference shown to the user and logged with the error (e.g. "REF-5F3A2C10")
+ */
+function createSupportReference(): string {
+  const random = typeof globalThis.crypto?.randomUUID === 'function'
+    ? globalThis.crypto.randomUUID().replace(/-/g, '')
+    : Math.random().toString(16).slice(2).padEnd(8, '0');
+  return `REF-${random.slice(0, 8).toUpperCase()}`;
+}
+
+/**
+ * An error with a stable code
+ *
+ * `message` is for logs and may contain technical details; `userMessage` is
+ * safe to show.
+ */
+export class AppError extends Error {
+  readonly userMessage: string;
+  readonly retry: RetryHint;
+  readonly supportReference: string;
+
+  constructor(public readonly code: ErrorCode, message?: string, options: AppErrorOptions = {}) {
+    const definition: ErrorDefinition = ERROR_DEFINITIONS[code];
+    super(message || definition.message, { cause: options.cause });
+    this.name = 'AppError';
+    this.userMessage = options.userMessage || definition.message;
+    this.retry = definition.retry;
+    this.supportReference = createSupportReference();
+  }
+
+  toJSON(): AppErrorDetails {
+    return {
+      code: this.code,
+      message: this.userMessage,
+      retry: this.retry,
+      supportReference: this.supportReference,
+    };
+  }
+}
+
+export function isAppError(error: unknown, code?: ErrorCode): error is AppError {
+  return error instanceof AppError && (code === undefined || error.code === code);
+}
+
+/**
+ * Wrap anything thrown into an AppError; AppErrors are returned unchanged
+ */
+export function toAppError(error: unknown, fallbackCode: ErrorCode = 'UNKNOWN'): AppError {
+  if (error instanceof AppError) {
+    return error;
+  }
+  return new AppError(
+    fallbackCode,
+    error instanceof Error ? error.message : String(error),
+    { cause: error }
+  );
+}
+
+/**
+ * Default user-safe message and retry hint for a code
+ */
+export function getErrorDefinition(code: ErrorCode): ErrorDefinition {
+  return ERROR_DEFINITIONS[code];
+}
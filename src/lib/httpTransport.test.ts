@@ -0,0 +1,136 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CircuitOpenError, createHttpTransport, HttpRequestError, HttpTransportConfig } from './httpTransport';
+
+// Local upstream that answers each request with the next queued reply
+let server: http.Server;
+let baseUrl: string;
+let replies: Array<{ status: number; headers?: Record<string, string> }>;
+let received: number;
+
+beforeEach(async () => {
+  replies = [];
+  received = 0;
+  server = http.createServer((req, res) => {
+    received++;
+    const reply = replies.shift() ?? { status: 200 };
+    req.resume();
+    res.writeHead(reply.status, reply.headers).end('body');
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+function transport(overrides: Partial<HttpTransportConfig> = {}) {
+  return createHttpTransport({
+    name: 'TEST',
+    timeoutMs: 2000,
+    maxRetries: 2,
+    circuitBreaker: null,
+    noProxy: [],
+    ...overrides,
+  });
+}
+
+describe('retries', () => {
+  it('retries a GET on 5xx', async () => {
+    replies = [{ status: 500 }, { status: 502 }];
+
+    const response = await transport().request(`${baseUrl}/data`);
+
+    expect(response.status).toBe(200);
+    expect(received).toBe(3);
+  });
+
+  it('does not retry 4xx other than 429', async () => {
+    replies = [{ status: 400 }];
+
+    expect((await transport().request(`${baseUrl}/data`)).status).toBe(400);
+    expect(received).toBe(1);
+  });
+
+  it('does not retry a POST after a 500 or a bare 503', async () => {
+    replies = [{ status: 500 }, { status: 503 }];
+
+    expect((await transport().request(`${baseUrl}/token`, { method: 'POST', body: 'x' })).status).toBe(500);
+    expect((await transport().request(`${baseUrl}/token`, { method: 'POST', body: 'x' })).status).toBe(503);
+    expect(received).toBe(2);
+  });
+
+  it('retries a POST on 429 and on 503 with Retry-After', async () => {
+    replies = [{ status: 429 }, { status: 503, headers: { 'Retry-After': '0' } }];
+
+    const response = await transport().request(`${baseUrl}/token`, { method: 'POST', body: 'x' });
+
+    expect(response.status).toBe(200);
+    expect(received).toBe(3);
+  });
+
+  it('retries a POST marked idempotent after a bare 503', async () => {
+    replies = [{ status: 503 }];
+
+    const response = await transport().request(`${baseUrl}/par`, { method: 'POST', body: 'x', idempotent: true });
+
+    expect(response.status).toBe(200);
+    expect(received).toBe(2);
+  });
+
+  it('does not wait for a Retry-After beyond the limit', async () => {
+    replies = [{ status: 429, headers: { 'Retry-After': '3600' } }];
+
+    expect((await transport().request(`${baseUrl}/data`)).status).toBe(429);
+    expect(received).toBe(1);
+  });
+
+  it('reports network errors as HttpRequestError', async () => {
+    const url = baseUrl;
+    await new Promise(resolve => server.close(resolve));
+    server = http.createServer();
+
+    await expect(transport({ maxRetries: 0 }).request(`${url}/data`)).rejects.toMatchObject({
+      name: 'HttpRequestError',
+      code: 'ECONNREFUSED',
+    });
+  });
+
+  it('reports a slow upstream as a timeout', async () => {
+    server.removeAllListeners('request');
+    server.on('request', (req, res) => setTimeout(() => res.end(), 500));
+
+    const error = await transport({ timeoutMs: 50, maxRetries: 0 }).request(`${baseUrl}/data`).catch(e => e);
+
+    expect(error).toBeInstanceOf(HttpRequestError);
+    expect(error.name).toBe('HttpTimeoutError');
+  });
+});
+
+describe('circuit breaker', () => {
+  it('stops sending after consecutive failures and tries again after the reset timeout', async () => {
+    const client = transport({ maxRetries: 0, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 100 } });
+    replies = [{ status: 500 }, { status: 500 }];
+
+    await client.request(`${baseUrl}/data`);
+    await client.request(`${baseUrl}/data`);
+    await expect(client.request(`${baseUrl}/data`)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(received).toBe(2);
+
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect((await client.request(`${baseUrl}/data`)).status).toBe(200);
+    expect((await client.request(`${baseUrl}/data`)).status).toBe(200);
+    expect(received).toBe(4);
+  });
+
+  it('does not count 429 as a failure', async () => {
+    const client = transport({ maxRetries: 0, circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60000 } });
+    replies = [{ status: 429 }];
+
+    await client.request(`${baseUrl}/data`);
+
+    expect((await client.request(`${baseUrl}/data`)).status).toBe(200);
+  });
+});
@@ -0,0 +1,546 @@
+/**
+ * HTTP Transport Module
+ *
+ * Shared outbound HTTP client for UAE PASS and CRM calls, built on Node's
+ * http/https modules:
+ * - Per-call timeouts (covering connect, headers and body)
+ * - Exponential backoff with jitter between retries
+ * - Retries on network errors, 429 and 5xx, honouring Retry-After
+ * - A circuit breaker per origin, so a failing upstream is not hammered
+ * - Outbound HTTP proxy support (HTTPS via CONNECT tunnel), with NO_PROXY
+ * - Optional mTLS client certificates
+ *
+ * Each integration gets its own transport, configured from environment
+ * variables with its prefix (e.g. UAE_PASS_HTTP_TIMEOUT_MS, CRM_HTTP_PROXY).
+ * A different implementation can be plugged in with setHttpTransport().
+ */
+
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import tls from 'tls';
+import { Duplex } from 'stream';
+import { createLogger } from './logger';
+
+const logger = createLogger('HTTP');
+
+const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
+const DEFAULT_MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 200;
+const RETRY_MAX_DELAY_MS = 5000;
+const MAX_RETRY_AFTER_MS = 30000; // Longer Retry-After values are not waited for
+const DEFAULT_BREAKER_THRESHOLD = 5;
+const DEFAULT_BREAKER_RESET_MS = 30000;
+
+// Network errors where the request never reached the server, so any method is safe to retry
+const CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH'];
+
+// Per-call request options
+export interface HttpRequestOptions {
+  method?: string;
+  headers?: HeadersInit;
+  body?: string | Buffer | Uint8Array;
+  timeoutMs?: number; // Per attempt; defaults to the transport's timeout
+  maxRetries?: number; // Overrides the transport's retry count for this call
+  // Safe to repeat after the server may have processed it (GET/HEAD always are).
+  // Non-idempotent requests are only retried when the server did not process them: connect errors,
+  // 429, or 503 with Retry-After. A bare 503 may come after the request was handled.
+  idempotent?: boolean;
+  signal?: AbortSignal;
+}
+
+// Anything that can send a request and return a standard Response
+export interface HttpTransport {
+  request(url: string, options?: HttpRequestOptions): Promise<Response>;
+}
+
+// mTLS client certificate settings
+export interface MutualTLSOptions {
+  cert: Buffer;
+  key: Buffer;
+  ca?: Buffer;
+  passphrase?: string;
+}
+
+// Circuit breaker settings
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // Consecutive failures that open the circuit
+  resetTimeoutMs: number; // How long the circuit stays open before a trial request
+}
+
+// Transport configuration
+export interface HttpTransportConfig {
+  name: string;
+  timeoutMs: number;
+  maxRetries: number;
+  circuitBreaker: CircuitBreakerOptions | null;
+  proxyUrl?: string;
+  noProxy: string[];
+  mtls?: MutualTLSOptions;
+}
+
+/**
+ * A request failed without an HTTP response (network error, timeout, open circuit)
+ */
+export class HttpRequestError extends Error {
+  constructor(message: string, public readonly url: string, public readonly code?: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'HttpRequestError';
+  }
+}
+
+/**
+ * A request attempt exceeded its timeout
+ */
+export class HttpTimeoutError extends HttpRequestError {
+  constructor(url: string, public readonly timeoutMs: number) {
+    super(`Request to ${url} timed out after ${timeoutMs / 1000} seconds`, url, 'ETIMEDOUT');
+    this.name = 'HttpTimeoutError';
+  }
+}
+
+/**
+ * The circuit for an origin is open; the request was not sent
+ */
+export class CircuitOpenError extends HttpRequestError {
+  constructor(url: string, public readonly retryAt: number) {
+    super(`Circuit open for ${new URL(url).origin} - not sending requests until ${new Date(retryAt).toISOString()}`, url, 'ECIRCUITOPEN');
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Circuit breaker for one origin
+ * closed -> open after N consecutive failures -> one trial request after the reset timeout
+ */
+class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly origin: string, private readonly options: CircuitBreakerOptions) {}
+
+  beforeRequest(url: string): void {
+    if (this.openedAt === null) return;
+
+    const retryAt = this.openedAt + this.options.resetTimeoutMs;
+    if (Date.now() < retryAt || this.trialInFlight) {
+      throw new CircuitOpenError(url, retryAt);
+    }
+    // Half-open: let a single trial request through
+    this.trialInFlight = true;
+  }
+
+  onSuccess(): void {
+    if (this.openedAt !== null) {
+      logger.info('Circuit closed:', this.origin);
+    }
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  onFailure(): void {
+    this.failures++;
+    this.trialInFlight = false;
+    if (this.openedAt !== null || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      logger.warn('Circuit opened:', { origin: this.origin, failures: this.failures });
+    }
+  }
+
+  // Outcome that says nothing about upstream health (e.g. 429, caller abort)
+  release(): void {
+    this.trialInFlight = false;
+  }
+}
+
+/**
+ * HTTPS agent that tunnels through an HTTP proxy with CONNECT
+ */
+class ProxyTunnelAgent extends https.Agent {
+  constructor(private readonly proxy: URL, options: https.AgentOptions) {
+    super(options);
+  }
+
+  createConnection(
+    options: https.RequestOptions,
+    callback?: (err: Error | null, stream: Duplex) => void
+  ): Duplex | null | undefined {
+    const target = `${options.host}:${options.port}`;
+    const connectRequest = http.request({
+      host: this.proxy.hostname,
+      port: this.proxy.port || 80,
+      method: 'CONNECT',
+      path: target,
+      headers: { Host: target, ...getProxyAuthorizationHeader(this.proxy) },
+    });
+
+    connectRequest.once('connect', (res, socket) => {
+      if (res.statusCode !== 200) {
+        socket.destroy();
+        callback?.(new Error(`Proxy CONNECT to ${target} failed with status ${res.statusCode}`), socket);
+        return;
+      }
+      const tlsSocket = tls.connect({
+        ...(options as tls.ConnectionOptions),
+        socket,
+        servername: options.servername || options.host || undefined,
+      });
+      callback?.(null, tlsSocket);
+    });
+    connectRequest.once('error', error => callback?.(error, connectRequest.socket as Duplex));
+    connectRequest.end();
+
+    return undefined;
+  }
+}
+
+function getProxyAuthorizationHeader(proxy: URL): Record<string, string> {
+  if (!proxy.username) return {};
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return { 'Proxy-Authorization': `Basic ${Buffer.from(credentials).toString('base64')}` };
+}
+
+/**
+ * NO_PROXY matching: exact host, domain suffix (".example.com" or "example.com"), or "*"
+ */
+function bypassesProxy(hostname: string, noProxy: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return noProxy.some(entry => {
+    if (entry === '*') return true;
+    const domain = entry.replace(/^\*?\./, '');
+    return host === domain || host.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Delay before the next attempt: exponential backoff with equal jitter
+ */
+function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/**
+ * Parse Retry-After (delta-seconds or HTTP date) into milliseconds
+ */
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function toHeaderRecord(headers: HeadersInit | undefined): Record<string, string> {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+function toResponse(res: http.IncomingMessage, body: Buffer, method: string): Response {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(res.headers)) {
+    if (Array.isArray(value)) {
+      value.forEach(v => headers.append(key, v));
+    } else if (value !== undefined) {
+      headers.set(key, value);
+    }
+  }
+
+  const status = res.statusCode || 500;
+  // Null-body statuses cannot be constructed with a body
+  const hasBody = method !== 'HEAD' && ![204, 205, 304].includes(status);
+  return new Response(hasBody ? new Uint8Array(body) : null, {
+    status,
+    statusText: res.statusMessage || '',
+    headers,
+  });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Default transport implementation
+ */
+class NodeHttpTransport implements HttpTransport {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly directAgent: https.Agent;
+  private readonly proxyAgent?: ProxyTunnelAgent;
+  private readonly proxy?: URL;
+
+  constructor(private readonly config: HttpTransportConfig) {
+    const agentOptions: https.AgentOptions = { keepAlive: true, ...config.mtls };
+    this.directAgent = new https.Agent(agentOptions);
+
+    if (config.proxyUrl) {
+      this.proxy = new URL(config.proxyUrl);
+      if (this.proxy.protocol !== 'http:') {
+        throw new Error(`Unsupported proxy protocol "${this.proxy.protocol}" for ${config.name} - use an http:// proxy URL`);
+      }
+      this.proxyAgent = new ProxyTunnelAgent(this.proxy, agentOptions);
+    }
+  }
+
+  async request(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+    const target = new URL(url);
+    const method = (options.method || 'GET').toUpperCase();
+    const idempotent = options.idempotent ?? (method === 'GET' || method === 'HEAD');
+    const maxRetries = options.maxRetries ?? this.config.maxRetries;
+    const breaker = this.getBreaker(target.origin);
+
+    breaker?.beforeRequest(url);
+
+    for (let attempt = 0; ; attempt++) {
+      let response: Response | null = null;
+      let error: unknown = null;
+
+      try {
+        response = await this.send(target, method, options);
+      } catch (sendError) {
+        error = sendError;
+      }
+
+      if (options.signal?.aborted) {
+        breaker?.release();
+        throw error ?? options.signal.reason;
+      }
+
+      if (response && !isRetryableStatus(response.status)) {
+        breaker?.onSuccess();
+        return response;
+      }
+
+      let delay: number | null = null;
+      if (attempt < maxRetries) {
+        if (response) {
+          const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+          const mayRetry = idempotent || response.status === 429 || (response.status === 503 && retryAfter !== null);
+          if (mayRetry && (retryAfter === null || retryAfter <= MAX_RETRY_AFTER_MS)) {
+            delay = retryAfter ?? backoffDelay(attempt);
+          }
+        } else {
+          const code = (error as NodeJS.ErrnoException)?.code;
+          if (idempotent || (code && CONNECT_ERROR_CODES.includes(code))) {
+            delay = backoffDelay(attempt);
+          }
+        }
+      }
+
+      if (delay === null) {
+        if (response) {
+          // A final 429 is back-pressure, not an outage
+          if (response.status === 429) breaker?.release();
+          else breaker?.onFailure();
+          return response;
+        }
+        breaker?.onFailure();
+        throw this.wrapError(url, error);
+      }
+
+      logger.warn(`${this.config.name} request failed, retrying:`, {
+        url: `${target.origin}${target.pathname}`,
+        attempt: attempt + 1,
+        maxRetries,
+        status: response?.status,
+        error: error instanceof Error ? error.message : undefined,
+        delayMs: delay,
+      });
+      await sleep(delay);
+    }
+  }
+
+  private getBreaker(origin: string): CircuitBreaker | null {
+    if (!this.config.circuitBreaker) return null;
+    let breaker = this.breakers.get(origin);
+    if (!breaker) {
+      breaker = new CircuitBreaker(origin, this.config.circuitBreaker);
+      this.breakers.set(origin, breaker);
+    }
+    return breaker;
+  }
+
+  private wrapError(url: string, error: unknown): Error {
+    if (error instanceof HttpRequestError) return error;
+    const code = (error as NodeJS.ErrnoException)?.code;
+    const message = error instanceof Error ? error.message : String(error);
+    return new HttpRequestError(`Request to ${url} failed: ${message}`, url, code, { cause: error });
+  }
+
+  /**
+   * Send a single attempt and buffer the response body
+   */
+  private send(target: URL, method: string, options: HttpRequestOptions): Promise<Response> {
+    const timeoutMs = options.timeoutMs ?? this.config.timeoutMs;
+    const isHttps = target.protocol === 'https:';
+    const useProxy = Boolean(this.proxy) && !bypassesProxy(target.hostname, this.config.noProxy);
+    const headers = toHeaderRecord(options.headers);
+
+    let requestOptions: https.RequestOptions;
+    if (useProxy && !isHttps) {
+      // Plain HTTP through a proxy: absolute-form request line to the proxy
+      requestOptions = {
+        host: this.proxy!.hostname,
+        port: this.proxy!.port || 80,
+        path: target.href,
+        headers: { ...headers, Host: target.host, ...getProxyAuthorizationHeader(this.proxy!) },
+      };
+    } else {
+      requestOptions = {
+        host: target.hostname,
+        port: target.port || (isHttps ? 443 : 80),
+        path: target.pathname + target.search,
+        headers,
+        agent: isHttps ? (useProxy ? this.proxyAgent : this.directAgent) : undefined,
+        servername: isHttps ? target.hostname : undefined,
+      };
+    }
+    requestOptions.method = method;
+
+    if (options.body !== undefined && headers['content-length'] === undefined) {
+      requestOptions.headers = { ...requestOptions.headers, 'Content-Length': String(Buffer.byteLength(options.body)) };
+    }
+
+    return new Promise((resolve, reject) => {
+      const client = isHttps ? https : http;
+      const req = client.request(requestOptions, res => {
+        const chunks: Buffer[] = [];
+        res.on('data', (chunk: Buffer) => chunks.push(chunk));
+        res.on('end', () => {
+          clearTimeout(timer);
+          try {
+            resolve(toResponse(res, Buffer.concat(chunks), method));
+          } catch (responseError) {
+            reject(responseError);
+          }
+        });
+        res.on('error', error => {
+          clearTimeout(timer);
+          reject(error);
+        });
+      });
+
+      const timer = setTimeout(() => req.destroy(new HttpTimeoutError(target.href, timeoutMs)), timeoutMs);
+
+      const onAbort = () => req.destroy(options.signal?.reason ?? new Error('Request aborted'));
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      req.on('error', error => {
+        clearTimeout(timer);
+        reject(error);
+      });
+      req.on('close', () => options.signal?.removeEventListener('abort', onAbort));
+
+      if (options.signal?.aborted) {
+        onAbort();
+        return;
+      }
+      if (options.body !== undefined) {
+        req.write(options.body);
+      }
+      req.end();
+    });
+  }
+}
+
+function readInteger(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+function readFile(name: string): Buffer | undefined {
+  const filePath = process.env[name];
+  if (!filePath) return undefined;
+  try {
+    return fs.readFileSync(filePath);
+  } catch (error) {
+    throw new Error(`Failed to read ${name} (${filePath}): ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+/**
+ * Build a transport configuration from environment variables
+ *
+ * For prefix "CRM":
+ * - CRM_HTTP_TIMEOUT_MS (30000), CRM_HTTP_MAX_RETRIES (2)
+ * - CRM_CIRCUIT_BREAKER_THRESHOLD (5, 0 disables), CRM_CIRCUIT_BREAKER_RESET_MS (30000)
+ * - CRM_HTTP_PROXY, falling back to HTTPS_PROXY / HTTP_PROXY; NO_PROXY is honoured
+ * - CRM_MTLS_CERT_FILE + CRM_MTLS_KEY_FILE (PEM), optional CRM_MTLS_CA_FILE and CRM_MTLS_KEY_PASSPHRASE
+ */
+export function getHttpTransportConfig(envPrefix: string): HttpTransportConfig {
+  const threshold = readInteger(`${envPrefix}_CIRCUIT_BREAKER_THRESHOLD`, DEFAULT_BREAKER_THRESHOLD);
+  const proxyUrl =
+    process.env[`${envPrefix}_HTTP_PROXY`] ||
+    process.env.HTTPS_PROXY || process.env.https_proxy ||
+    process.env.HTTP_PROXY || process.env.http_proxy ||
+    undefined;
+
+  const cert = readFile(`${envPrefix}_MTLS_CERT_FILE`);
+  const key = readFile(`${envPrefix}_MTLS_KEY_FILE`);
+  if (Boolean(cert) !== Boolean(key)) {
+    throw new Error(`${envPrefix}_MTLS_CERT_FILE and ${envPrefix}_MTLS_KEY_FILE must be set together`);
+  }
+
+  return {
+    name: envPrefix,
+    timeoutMs: readInteger(`${envPrefix}_HTTP_TIMEOUT_MS`, DEFAULT_TIMEOUT_MS) || DEFAULT_TIMEOUT_MS,
+    maxRetries: readInteger(`${envPrefix}_HTTP_MAX_RETRIES`, DEFAULT_MAX_RETRIES),
+    circuitBreaker: threshold > 0
+      ? { failureThreshold: threshold, resetTimeoutMs: readInteger(`${envPrefix}_CIRCUIT_BREAKER_RESET_MS`, DEFAULT_BREAKER_RESET_MS) }
+      : null,
+    proxyUrl: proxyUrl === 'none' ? undefined : proxyUrl,
+    noProxy: (process.env.NO_PROXY || process.env.no_proxy || '')
+      .split(',')
+      .map(entry => entry.trim().toLowerCase())
+      .filter(Boolean),
+    mtls: cert && key
+      ? { cert, key, ca: readFile(`${envPrefix}_MTLS_CA_FILE`), passphrase: process.env[`${envPrefix}_MTLS_KEY_PASSPHRASE`] }
+      : undefined,
+  };
+}
+
+/**
+ * Create a transport with the default implementation
+ */
+export function createHttpTransport(config: HttpTransportConfig): HttpTransport {
+  return new NodeHttpTransport(config);
+}
+
+// Process-wide transports keyed by env prefix
+const transports = new Map<string, HttpTransport>();
+
+/**
+ * Get the transport for an integration (created from env on first use)
+ *
+ * @param envPrefix - Integration prefix, e.g. "UAE_PASS" or "CRM"
+ */
+export function getHttpTransport(envPrefix: string): HttpTransport {
+  let transport = transports.get(envPrefix);
+  if (!transport) {
+    transport = createHttpTransport(getHttpTransportConfig(envPrefix));
+    transports.set(envPrefix, transport);
+  }
+  return transport;
+}
+
+/**
+ * Plug in a different transport for an integration, or pass null to go back to the default
+ */
+export function setHttpTransport(envPrefix: string, transport: HttpTransport | null): void {
+  if (transport) {
+    transports.set(envPrefix, transport);
+  } else {
+    transports.delete(envPrefix);
+  }
+}
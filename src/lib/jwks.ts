@@ -0,0 +1,131 @@
+/**
+ * JWKS Cache Module
+ *
+ * Keeps one JSON Web Key Set per issuer for the lifetime of the process,
+ * instead of fetching the key set again on every login.
+ *
+ * - Keys are refetched after UAE_PASS_JWKS_CACHE_TTL_SECONDS (default 600)
+ * - A token signed with an unknown `kid` triggers a refetch (key rotation),
+ *   at most once per UAE_PASS_JWKS_COOLDOWN_SECONDS (default 30), so a flood
+ *   of bad tokens cannot cause endless refetches
+ * - UAE_PASS_JWKS_FILE loads keys from a local JWKS JSON file instead of the
+ *   network, for air-gapped environments
+ * - Keys that cannot be fetched (timeout, non-200 response) surface as
+ *   HttpRequestError, like every other UAE PASS call, not as a token error
+ */
+
+import fs from 'fs';
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  customFetch,
+  errors,
+  JSONWebKeySet,
+  JWTVerifyGetKey,
+} from 'jose';
+import { uaePassLogger as logger } from './logger';
+import { getHttpTransport, HttpRequestError, HttpTimeoutError } from './httpTransport';
+
+const DEFAULT_CACHE_TTL_SECONDS = 600; // 10 minutes
+const DEFAULT_COOLDOWN_SECONDS = 30;
+const JWKS_TIMEOUT_MS = 10000; // 10 seconds
+
+// Process-wide key sets keyed by issuer
+const keySets = new Map<string, { jwksUri: string; getKey: JWTVerifyGetKey }>();
+
+function readSeconds(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+/**
+ * Load a JWKS document from a local file
+ */
+function loadLocalKeySet(filePath: string): JSONWebKeySet {
+  let jwks: JSONWebKeySet;
+  try {
+    jwks = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to read JWKS file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+
+  if (!jwks || !Array.isArray(jwks.keys) || jwks.keys.length === 0) {
+    throw new Error(`JWKS file ${filePath} does not contain a "keys" array`);
+  }
+
+  logger.info('Loaded JWKS from local file:', { filePath, keyCount: jwks.keys.length });
+  return jwks;
+}
+
+/**
+ * Create the key resolver for an issuer
+ */
+function createKeySet(jwksUri: string): JWTVerifyGetKey {
+  const jwksFile = process.env.UAE_PASS_JWKS_FILE;
+  if (jwksFile) {
+    return createLocalJWKSet(loadLocalKeySet(jwksFile));
+  }
+
+  const getKey = createRemoteJWKSet(new URL(jwksUri), {
+    cacheMaxAge: readSeconds('UAE_PASS_JWKS_CACHE_TTL_SECONDS', DEFAULT_CACHE_TTL_SECONDS) * 1000,
+    cooldownDuration: readSeconds('UAE_PASS_JWKS_COOLDOWN_SECONDS', DEFAULT_COOLDOWN_SECONDS) * 1000,
+    timeoutDuration: JWKS_TIMEOUT_MS,
+    // Same proxy / mTLS / retry settings as the other UAE PASS calls
+    [customFetch]: async (url, options) => {
+      const response = await getHttpTransport('UAE_PASS').request(url, {
+        method: options.method,
+        headers: options.headers,
+        signal: options.signal,
+        timeoutMs: JWKS_TIMEOUT_MS,
+      });
+      if (response.status !== 200) {
+        throw new HttpRequestError(`JWKS request to ${url} failed with status ${response.status}`, url);
+      }
+      return response;
+    },
+  });
+
+  return async (protectedHeader, token) => {
+    try {
+      return await getKey(protectedHeader, token);
+    } catch (error) {
+      // jose's own timeout, when it aborts before the transport does
+      if (error instanceof errors.JWKSTimeout) {
+        throw new HttpTimeoutError(jwksUri, JWKS_TIMEOUT_MS);
+      }
+      throw error;
+    }
+  };
+}
+
+/**
+ * Get the cached key resolver for an issuer, for use with jose's jwtVerify
+ *
+ * @param issuer - Issuer identifier, the cache key
+ * @param jwksUri - Where the issuer publishes its keys
+ */
+export function getJWKS(issuer: string, jwksUri: string): JWTVerifyGetKey {
+  const cached = keySets.get(issuer);
+  // A changed jwks_uri (e.g. new discovery document) replaces the cached set
+  if (cached && cached.jwksUri === jwksUri) {
+    return cached.getKey;
+  }
+
+  const getKey = createKeySet(jwksUri);
+  keySets.set(issuer, { jwksUri, getKey });
+  logger.debug('JWKS key set created:', { issuer, jwksUri });
+  return getKey;
+}
+
+/**
+ * Drop cached key sets (all, or a single issuer)
+ */
+export function clearJWKSCache(issuer?: string): void {
+  if (issuer) {
+    keySets.delete(issuer);
+  } else {
+    keySets.clear();
+  }
+}
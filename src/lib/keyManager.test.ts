@@ -0,0 +1,90 @@
+import crypto from 'crypto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CompactEncrypt, decodeProtectedHeader } from 'jose';
+import { assertSessionSecretConfigured, decryptPayload, encryptPayload } from './keyManager';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+// The key keyManager derives for a secret and purpose
+function derivedKey(secret: string, purpose: string): Uint8Array {
+  return new Uint8Array(crypto.hkdfSync('sha256', secret, 'uaepass-session-keys', `uaepass-${purpose}`, 32));
+}
+
+describe('keyring', () => {
+  it('encrypts with the first key and names it in the header', async () => {
+    vi.stubEnv('SESSION_SECRETS', 'new:new-secret,old:old-secret');
+
+    const jwe = await encryptPayload('data', 'session');
+
+    expect(decodeProtectedHeader(jwe)).toEqual({ alg: 'dir', enc: 'A256GCM', kid: 'new' });
+    expect(await decryptPayload(jwe, 'session')).toBe('data');
+  });
+
+  it('still decrypts payloads of a rotated-out key while it stays in the keyring', async () => {
+    vi.stubEnv('SESSION_SECRET', 'old-secret');
+    const jwe = await encryptPayload('data', 'session');
+
+    vi.stubEnv('SESSION_SECRETS', 'new:new-secret,default:old-secret');
+    expect(await decryptPayload(jwe, 'session')).toBe('data');
+
+    vi.stubEnv('SESSION_SECRETS', 'new:new-secret');
+    await expect(decryptPayload(jwe, 'session')).rejects.toThrow('Unknown session key: default');
+  });
+
+  it('does not decrypt with the same kid but another secret', async () => {
+    vi.stubEnv('SESSION_SECRETS', 'k1:first-secret');
+    const jwe = await encryptPayload('data', 'session');
+
+    vi.stubEnv('SESSION_SECRETS', 'k1:second-secret');
+    await expect(decryptPayload(jwe, 'session')).rejects.toThrow();
+  });
+
+  it('keeps purposes apart', async () => {
+    vi.stubEnv('SESSION_SECRET', 'secret');
+    const jwe = await encryptPayload('refresh-token', 'refresh-token');
+
+    await expect(decryptPayload(jwe, 'session')).rejects.toThrow();
+  });
+
+  it('rejects a tampered payload', async () => {
+    vi.stubEnv('SESSION_SECRET', 'secret');
+    const [header, key, iv, ciphertext, tag] = (await encryptPayload('data', 'session')).split('.');
+    const flipped = Buffer.from(ciphertext, 'base64url');
+    flipped[0] ^= 1;
+
+    await expect(decryptPayload([header, key, iv, flipped.toString('base64url'), tag].join('.'), 'session')).rejects.toThrow();
+  });
+
+  it.each([
+    ['A256KW', 'A256GCM'],
+    ['dir', 'A128GCM'],
+  ])('rejects %s / %s even with the right key', async (alg, enc) => {
+    vi.stubEnv('SESSION_SECRET', 'secret');
+    const key = derivedKey('secret', 'session');
+    const jwe = await new CompactEncrypt(new TextEncoder().encode('data'))
+      .setProtectedHeader({ alg, enc, kid: 'default' })
+      .encrypt(enc === 'A128GCM' ? key.slice(0, 16) : key);
+
+    await expect(decryptPayload(jwe, 'session')).rejects.toThrow();
+  });
+
+  it('rejects malformed SESSION_SECRETS', async () => {
+    vi.stubEnv('SESSION_SECRETS', 'no-separator');
+    await expect(encryptPayload('data', 'session')).rejects.toThrow('kid:secret pairs');
+
+    vi.stubEnv('SESSION_SECRETS', 'a:one,a:two');
+    await expect(encryptPayload('data', 'session')).rejects.toThrow('duplicate kid');
+  });
+
+  it('refuses the development default in production', () => {
+    vi.stubEnv('NODE_ENV', 'production');
+    vi.stubEnv('SESSION_SECRET', '');
+    vi.stubEnv('SESSION_SECRETS', '');
+    expect(() => assertSessionSecretConfigured()).toThrow('must be set');
+
+    vi.stubEnv('SESSION_SECRET', 'a-strong-secret');
+    expect(() => assertSessionSecretConfigured()).not.toThrow();
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Session Key Manager
+ *
+ * One place for the secrets that protect session data. Payloads are encrypted
+ * as compact JWE (dir + A256GCM) with the current key; the key ID (kid) in the
+ * JWE header selects the key for decryption, so older secrets keep working
+ * while they stay in the keyring.
+ *
+ * Keyring, from SESSION_SECRETS (comma-separated kid:secret pairs, first one
+ * encrypts) or SESSION_SECRET (a single key). To rotate, put the new secret
+ * first and keep the old one until its sessions have expired
+ * (SESSION_MAX_AGE_SECONDS):
+ *
+ *   SESSION_SECRETS=2026-10:new-secret,default:old-secret
+ *
+ * Each purpose (session data, refresh tokens, login transactions) gets its own
+ * key derived from the secret with HKDF. In production the app refuses to
+ * start without a secret or with the development default (see
+ * src/instrumentation.ts).
+ * Reference: RFC 7516 (JWE), RFC 5869 (HKDF)
+ */
+
+import crypto from 'crypto';
+import { CompactEncrypt, compactDecrypt, decodeProtectedHeader } from 'jose';
+
+// Development fallback only; rejected in production
+const DEFAULT_SESSION_SECRET = 'dev-secret-change-in-production';
+const DEFAULT_KID = 'dev';
+// kid of SESSION_SECRET; list it as default:<secret> in SESSION_SECRETS when rotating
+const SINGLE_SECRET_KID = 'default';
+const HKDF_SALT = 'uaepass-session-keys';
+
+export type KeyPurpose = 'session' | 'refresh-token' | 'login-transaction';
+
+interface KeyringEntry {
+  kid: string;
+  secret: string;
+}
+
+// Derived keys, cached per secret and purpose
+const derivedKeys = new Map<string, Uint8Array>();
+
+/**
+ * Read the keyring from the environment; the first entry is the current key
+ */
+function getKeyring(): KeyringEntry[] {
+  const secrets = (process.env.SESSION_SECRETS || '').trim();
+  if (secrets) {
+    const keyring = secrets.split(',').map(entry => {
+      const separator = entry.indexOf(':');
+      const kid = separator > 0 ? entry.slice(0, separator).trim() : '';
+      const secret = separator > 0 ? entry.slice(separator + 1).trim() : '';
+      if (!kid || !secret) {
+        throw new Error('SESSION_SECRETS must be a comma-separated list of kid:secret pairs');
+      }
+      return { kid, secret };
+    });
+    if (new Set(keyring.map(entry => entry.kid)).size !== keyring.length) {
+      throw new Error('SESSION_SECRETS contains a duplicate kid');
+    }
+    return keyring;
+  }
+
+  const secret = process.env.SESSION_SECRET;
+  if (secret) {
+    return [{ kid: SINGLE_SECRET_KID, secret }];
+  }
+  return [{ kid: DEFAULT_KID, secret: DEFAULT_SESSION_SECRET }];
+}
+
+/**
+ * Throw if session secrets are missing or unsafe for production
+ *
+ * Outside production the development default is allowed.
+ */
+export function assertSessionSecretConfigured(): void {
+  const keyring = getKeyring();
+  if (process.env.NODE_ENV !== 'production') {
+    return;
+  }
+  if (keyring.some(entry => entry.secret === DEFAULT_SESSION_SECRET)) {
+    throw new Error('SESSION_SECRET (or SESSION_SECRETS) must be set to a strong random value in production');
+  }
+}
+
+function deriveKey(entry: KeyringEntry, purpose: KeyPurpose): Uint8Array {
+  const cacheKey = `${purpose}:${entry.kid}:${entry.secret}`;
+  let key = derivedKeys.get(cacheKey);
+  if (!key) {
+    key = new Uint8Array(crypto.hkdfSync('sha256', entry.secret, HKDF_SALT, `uaepass-${purpose}`, 32));
+    derivedKeys.set(cacheKey, key);
+  }
+  return key;
+}
+
+/**
+ * Encrypt a string with the current key
+ */
+export async function encryptPayload(plaintext: string, purpose: KeyPurpose): Promise<string> {
+  assertSessionSecretConfigured();
+  const current = getKeyring()[0];
+  return new CompactEncrypt(new TextEncoder().encode(plaintext))
+    .setProtectedHeader({ alg: 'dir', enc: 'A256GCM', kid: current.kid })
+    .encrypt(deriveKey(current, purpose));
+}
+
+/**
+ * Decrypt a payload from encryptPayload with the key named by its kid
+ * Throws if the kid is not in the keyring or the payload was tampered with
+ */
+export async function decryptPayload(jwe: string, purpose: KeyPurpose): Promise<string> {
+  const { kid } = decodeProtectedHeader(jwe);
+  const entry = getKeyring().find(candidate => candidate.kid === kid);
+  if (!entry) {
+    throw new Error(`Unknown session key: ${kid}`);
+  }
+  // Only the algorithms encryptPayload uses
+  const { plaintext } = await compactDecrypt(jwe, deriveKey(entry, purpose), {
+    keyManagementAlgorithms: ['dir'],
+    contentEncryptionAlgorithms: ['A256GCM'],
+  });
+  return new TextDecoder().decode(plaintext);
+}
@@ -53,6 +53,7 @@ function maskSensitiveData(obj: any): any {
     'id_token',
     'refresh_token',
     'client_secret',
+    'client_assertion',
     'apiToken',
     'authorization',
   ];
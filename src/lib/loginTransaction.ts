@@ -0,0 +1,113 @@
+/**
+ * Login Transactions
+ *
+ * Everything the callback needs to finish a login (nonce, PKCE code verifier,
+ * requested assurance level, return target) in one encrypted cookie per login,
+ * named after its state. Logins started in several tabs each keep their own
+ * transaction, so one callback never invalidates another. A transaction is
+ * deleted when its callback reads it, so it cannot be replayed.
+ */
+
+import crypto from 'crypto';
+import { cookies } from 'next/headers';
+import { encryptPayload, decryptPayload } from './keyManager';
+import { sanitizeReturnTo } from './returnTo';
+import { authLogger as logger } from './logger';
+
+const TRANSACTION_COOKIE_PREFIX = 'uaepass_txn_';
+const TRANSACTION_MAX_AGE_SECONDS = 600; // 10 minutes
+// Logins in flight per browser; starting another drops the oldest
+const MAX_PENDING_TRANSACTIONS = 5;
+
+export interface LoginTransaction {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  acrLevel: string; // Assurance level requested at login
+  returnTo?: string; // Validated same-origin path to open after login
+  createdAt: number; // ms since epoch
+}
+
+/**
+ * Cookie name for a state: a short hash, so the state itself is not exposed
+ * and arbitrary callback input never becomes a cookie name
+ */
+function getTransactionCookieName(state: string): string {
+  return TRANSACTION_COOKIE_PREFIX + crypto.createHash('sha256').update(state).digest('base64url').slice(0, 22);
+}
+
+async function readTransaction(value: string): Promise<LoginTransaction | null> {
+  try {
+    return JSON.parse(await decryptPayload(value, 'login-transaction')) as LoginTransaction;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Store a new login transaction, keeping at most MAX_PENDING_TRANSACTIONS
+ */
+export async function createLoginTransaction(transaction: Omit<LoginTransaction, 'createdAt'>): Promise<void> {
+  const cookieStore = await cookies();
+
+  // Drop unreadable transactions and the oldest ones beyond the limit
+  const pending: { name: string; createdAt: number }[] = [];
+  for (const cookie of cookieStore.getAll()) {
+    if (!cookie.name.startsWith(TRANSACTION_COOKIE_PREFIX)) continue;
+    const existing = await readTransaction(cookie.value);
+    if (existing) {
+      pending.push({ name: cookie.name, createdAt: existing.createdAt });
+    } else {
+      cookieStore.delete(cookie.name);
+    }
+  }
+  pending.sort((a, b) => a.createdAt - b.createdAt);
+  for (const stale of pending.slice(0, Math.max(0, pending.length - MAX_PENDING_TRANSACTIONS + 1))) {
+    logger.debug('Dropping oldest pending login transaction');
+    cookieStore.delete(stale.name);
+  }
+
+  const payload: LoginTransaction = { ...transaction, createdAt: Date.now() };
+  cookieStore.set(getTransactionCookieName(transaction.state), await encryptPayload(JSON.stringify(payload), 'login-transaction'), {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge: TRANSACTION_MAX_AGE_SECONDS,
+  });
+}
+
+/**
+ * Take the login transaction for a callback's state, deleting it
+ *
+ * Returns null when this browser has no (unexpired) transaction for the state.
+ * The return target is validated again, in case the allowlist changed meanwhile.
+ */
+export async function consumeLoginTransaction(state: string): Promise<LoginTransaction | null> {
+  const cookieStore = await cookies();
+  const name = getTransactionCookieName(state);
+  const value = cookieStore.get(name)?.value;
+  if (!value) {
+    return null;
+  }
+  cookieStore.delete(name);
+
+  const transaction = await readTransaction(value);
+  if (!transaction || transaction.state !== state) {
+    logger.warn('Login transaction could not be read');
+    return null;
+  }
+  if (Date.now() - transaction.createdAt > TRANSACTION_MAX_AGE_SECONDS * 1000) {
+    logger.warn('Login transaction expired');
+    return null;
+  }
+  return { ...transaction, returnTo: sanitizeReturnTo(transaction.returnTo) || undefined };
+}
+
+/**
+ * Whether this browser has any login in flight (to tell a wrong state from no login at all)
+ */
+export async function hasPendingLoginTransactions(): Promise<boolean> {
+  const cookieStore = await cookies();
+  return cookieStore.getAll().some(cookie => cookie.name.startsWith(TRANSACTION_COOKIE_PREFIX));
+}
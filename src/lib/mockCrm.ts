@@ -0,0 +1,355 @@
+/**
+ * Local Mock FXBackoffice CRM
+ *
+ * In-process stand-in for the CRM endpoints used by src/lib/crmApi.ts, served
+ * from /api/mock-crm when CRM_ENVIRONMENT=local-mock:
+ * - POST rest/users          search by email, phone and/or custom fields
+ * - POST rest/users/new      registration, with the CRM's validation error shape
+ * - POST rest/users/update   custom field update
+ * - POST rest/user/direct_login
+ *
+ * Users are seeded from fixtures/mockCrmUsers.json and kept in memory, or in
+ * CRM_MOCK_STORE_FILE when set. Failures can be injected with CRM_MOCK_FAILURES
+ * or at runtime through the mock/failures endpoint. Never enabled in production.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { CRMErrorResponse, CRMUser, RegistrationRequest, getCRMConfig } from './crmApi';
+import { createLogger } from './logger';
+import { escapeHtml } from './mockUaePass';
+import seedUsers from './fixtures/mockCrmUsers.json';
+
+const logger = createLogger('MOCK CRM');
+
+const DIRECT_LOGIN_TTL_MS = 5 * 60 * 1000; // 5 minutes
+
+// CRM endpoints below /rest that failures can target
+export type MockCrmEndpoint = 'users' | 'users/new' | 'users/update' | 'user/direct_login';
+
+export const MOCK_CRM_ENDPOINTS: MockCrmEndpoint[] = ['users', 'users/new', 'users/update', 'user/direct_login'];
+
+// Injected failures
+export interface MockCrmFailures {
+  duplicatePhone: boolean; // Registration rejects the phone number as already registered
+  duplicateEmail: boolean; // Registration rejects the email address as already registered
+  serverError: MockCrmEndpoint[]; // Endpoints that answer 500
+  delayMs: number; // Added before every response
+}
+
+// Response of a mock endpoint
+export interface MockCrmResponse {
+  status: number;
+  body: unknown;
+}
+
+interface MockCrmState {
+  users?: Map<number, CRMUser>;
+  failures?: MockCrmFailures;
+  directLogins: Map<string, { userId: number; expiresAt: number }>;
+}
+
+// Kept on globalThis so the store survives dev-server module reloads
+const globalForMock = globalThis as typeof globalThis & { crmMockState?: MockCrmState };
+const mockState: MockCrmState = globalForMock.crmMockState ??= { directLogins: new Map() };
+
+/**
+ * The mock is only served in local-mock mode and never in production
+ */
+export function isMockCrmEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.CRM_ENVIRONMENT === 'local-mock';
+}
+
+/**
+ * Parse CRM_MOCK_FAILURES, e.g. "duplicate_phone,server_error:users/new,slow:5000"
+ * - duplicate_phone, duplicate_email
+ * - server_error (every endpoint) or server_error:<endpoint>
+ * - slow:<milliseconds>
+ */
+export function parseMockCrmFailures(value: string | undefined): MockCrmFailures {
+  const failures: MockCrmFailures = { duplicatePhone: false, duplicateEmail: false, serverError: [], delayMs: 0 };
+
+  for (const entry of (value || '').split(',').map(item => item.trim()).filter(Boolean)) {
+    const [name, argument] = entry.split(':', 2);
+    if (name === 'duplicate_phone') {
+      failures.duplicatePhone = true;
+    } else if (name === 'duplicate_email') {
+      failures.duplicateEmail = true;
+    } else if (name === 'server_error') {
+      if (!argument) {
+        failures.serverError = [...MOCK_CRM_ENDPOINTS];
+      } else if (MOCK_CRM_ENDPOINTS.includes(argument as MockCrmEndpoint)) {
+        failures.serverError.push(argument as MockCrmEndpoint);
+      } else {
+        throw new Error(`Unknown CRM_MOCK_FAILURES endpoint "${argument}". Expected one of: ${MOCK_CRM_ENDPOINTS.join(', ')}`);
+      }
+    } else if (name === 'slow') {
+      const delayMs = parseInt(argument || '', 10);
+      if (!Number.isFinite(delayMs) || delayMs < 0) {
+        throw new Error(`Invalid CRM_MOCK_FAILURES delay "${argument}"`);
+      }
+      failures.delayMs = delayMs;
+    } else {
+      throw new Error(`Unknown CRM_MOCK_FAILURES entry "${entry}". Expected duplicate_phone, duplicate_email, server_error[:endpoint] or slow:<ms>`);
+    }
+  }
+  return failures;
+}
+
+export function getMockCrmFailures(): MockCrmFailures {
+  mockState.failures ??= parseMockCrmFailures(process.env.CRM_MOCK_FAILURES);
+  return mockState.failures;
+}
+
+/**
+ * Replace the injected failures until the next reset
+ */
+export function setMockCrmFailures(failures: Partial<MockCrmFailures>): MockCrmFailures {
+  mockState.failures = { ...getMockCrmFailures(), ...failures };
+  logger.info('Failures updated:', mockState.failures);
+  return mockState.failures;
+}
+
+function loadUsers(): Map<number, CRMUser> {
+  const storeFile = process.env.CRM_MOCK_STORE_FILE;
+  let users = seedUsers as CRMUser[];
+
+  if (storeFile && fs.existsSync(storeFile)) {
+    try {
+      users = JSON.parse(fs.readFileSync(storeFile, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to read mock CRM store ${storeFile}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+  return new Map(users.map(user => [user.id, structuredClone(user)]));
+}
+
+function getUsers(): Map<number, CRMUser> {
+  mockState.users ??= loadUsers();
+  return mockState.users;
+}
+
+/**
+ * Write the store to CRM_MOCK_STORE_FILE (no-op when unset)
+ */
+function saveUsers(): void {
+  const storeFile = process.env.CRM_MOCK_STORE_FILE;
+  if (storeFile) {
+    fs.writeFileSync(storeFile, JSON.stringify(Array.from(getUsers().values()), null, 2));
+  }
+}
+
+/**
+ * Restore the seed users and the CRM_MOCK_FAILURES settings
+ * The store file, if any, is overwritten with the seed users.
+ */
+export function resetMockCrm(): void {
+  mockState.users = new Map((seedUsers as CRMUser[]).map(user => [user.id, structuredClone(user)]));
+  mockState.failures = undefined;
+  mockState.directLogins.clear();
+  saveUsers();
+  logger.info('Store and failures reset');
+}
+
+function normalizePhone(phone: unknown): string {
+  return typeof phone === 'string' ? phone.replace(/\D/g, '') : '';
+}
+
+function normalizeEmail(email: unknown): string {
+  return typeof email === 'string' ? email.trim().toLowerCase() : '';
+}
+
+function errorResponse(status: number, message: string): MockCrmResponse {
+  const body: CRMErrorResponse = { code: status, message };
+  return { status, body };
+}
+
+/**
+ * Validation failure in the CRM's form error shape (see parseCRMErrorResponse)
+ */
+function validationError(fieldErrors: Record<string, string[]>): MockCrmResponse {
+  const children: Record<string, { errors?: string[] }> = {};
+  for (const field of ['firstName', 'lastName', 'email', 'phone', 'country', 'password']) {
+    children[field] = fieldErrors[field] ? { errors: fieldErrors[field] } : {};
+  }
+  const body: CRMErrorResponse = { code: 400, message: 'Validation Failed', errors: { children } };
+  return { status: 400, body };
+}
+
+/**
+ * Bearer token, injected delay and injected server error shared by every endpoint
+ * Returns a response when the request must not reach the endpoint
+ */
+export async function checkMockCrmRequest(
+  endpoint: MockCrmEndpoint,
+  authorization: string | null
+): Promise<MockCrmResponse | null> {
+  const failures = getMockCrmFailures();
+  if (failures.delayMs > 0) {
+    await new Promise(resolve => setTimeout(resolve, failures.delayMs));
+  }
+
+  if (authorization !== `Bearer ${getCRMConfig().apiToken}`) {
+    return errorResponse(401, 'Invalid or missing API token');
+  }
+  if (failures.serverError.includes(endpoint)) {
+    logger.warn('Injected server error:', endpoint);
+    return errorResponse(500, 'Internal Server Error');
+  }
+  return null;
+}
+
+/**
+ * rest/users: every given filter must match; custom fields match exactly
+ */
+export function handleSearchUsers(filter: {
+  email?: string;
+  phone?: string;
+  customFields?: Record<string, unknown>;
+}): MockCrmResponse {
+  const matches = Array.from(getUsers().values()).filter(user => {
+    if (filter.email !== undefined && normalizeEmail(user.email) !== normalizeEmail(filter.email)) {
+      return false;
+    }
+    // Exact match, as the CRM does: "+971 50..." is not found by "+97150..."
+    if (filter.phone !== undefined && user.phone !== filter.phone) {
+      return false;
+    }
+    return Object.entries(filter.customFields || {}).every(
+      ([field, value]) => user.customFields?.[field] === value
+    );
+  });
+
+  logger.debug('Search:', { filter, matches: matches.length });
+  return { status: 200, body: matches };
+}
+
+/**
+ * rest/users/new
+ * Duplicate checks compare digits only, so numbers stored with spaces still collide
+ */
+export function handleRegisterUser(request: Partial<RegistrationRequest>): MockCrmResponse {
+  const failures = getMockCrmFailures();
+  const users = Array.from(getUsers().values());
+  const fieldErrors: Record<string, string[]> = {};
+  const addError = (field: string, message: string) => {
+    (fieldErrors[field] ??= []).push(message);
+  };
+
+  for (const field of ['firstName', 'lastName', 'email', 'phone', 'password'] as const) {
+    if (!request[field]) addError(field, 'This value is required.');
+  }
+  if (request.email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(request.email)) {
+    addError('email', 'This value is not a valid email address.');
+  }
+  if (request.phone && !/^\+\d{7,15}$/.test(request.phone)) {
+    addError('phone', 'This value is not a valid phone number.');
+  }
+  if (request.country && !/^[A-Z]{2}$/.test(request.country)) {
+    addError('country', 'This value is not a valid country.');
+  }
+
+  if (failures.duplicateEmail || (request.email && users.some(u => normalizeEmail(u.email) === normalizeEmail(request.email)))) {
+    addError('email', 'This email is already registered.');
+  }
+  if (failures.duplicatePhone || (request.phone && users.some(u => normalizePhone(u.phone) === normalizePhone(request.phone)))) {
+    addError('phone', 'This phone is already registered.');
+  }
+
+  if (Object.keys(fieldErrors).length > 0) {
+    logger.info('Registration rejected:', fieldErrors);
+    return validationError(fieldErrors);
+  }
+
+  const user: CRMUser = {
+    id: Math.max(1000, ...users.map(u => u.id)) + 1,
+    email: request.email!,
+    firstName: request.firstName!,
+    lastName: request.lastName!,
+    phone: request.phone!,
+    country: request.country || 'CY',
+    nationality: request.nationality,
+    enabled: true,
+    verified: Boolean(request.emailVerified && request.phoneVerified),
+    customFields: {},
+  };
+  getUsers().set(user.id, user);
+  saveUsers();
+  logger.info('User registered:', { id: user.id, email: user.email });
+
+  return { status: 200, body: user };
+}
+
+/**
+ * rest/users/update: merges the given custom fields
+ */
+export function handleUpdateUser(request: { user?: number; customFields?: Record<string, unknown> }): MockCrmResponse {
+  const user = request.user !== undefined ? getUsers().get(request.user) : undefined;
+  if (!user) {
+    return errorResponse(404, 'User not found');
+  }
+
+  user.customFields = { ...user.customFields, ...request.customFields };
+  saveUsers();
+  logger.info('User updated:', { id: user.id, fields: Object.keys(request.customFields || {}) });
+
+  return { status: 200, body: user };
+}
+
+/**
+ * rest/user/direct_login: one-time URL that lands on the mock "client area"
+ */
+export function handleDirectLogin(request: { user?: number }): MockCrmResponse {
+  const user = request.user !== undefined ? getUsers().get(request.user) : undefined;
+  if (!user) {
+    return errorResponse(404, 'User not found');
+  }
+
+  const token = crypto.randomBytes(24).toString('base64url');
+  mockState.directLogins.set(token, {
+    userId: user.id,
+    expiresAt: Date.now() + DIRECT_LOGIN_TTL_MS,
+  });
+  logger.info('Direct login URL issued:', { id: user.id });
+
+  return { status: 200, body: { url: `${getCRMConfig().baseUrl}/mock/direct-login/${token}` } };
+}
+
+/**
+ * Page shown when the browser follows a direct login URL (single use)
+ */
+export function renderDirectLoginPage(token: string): string | null {
+  const login = mockState.directLogins.get(token);
+  mockState.directLogins.delete(token);
+  const user = login && login.expiresAt > Date.now() ? getUsers().get(login.userId) : undefined;
+  if (!user) {
+    return null;
+  }
+
+  const escape = (value: unknown) => escapeHtml(String(value ?? ''));
+  const customFields = Object.entries(user.customFields || {})
+    .map(([field, value]) => `<tr><td>${escape(field)}</td><td>${escape(value)}</td></tr>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <title>CRM client area (mock)</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #f3f4f6; display: flex; min-height: 100vh; align-items: center; justify-content: center; margin: 0; }
+      main { background: #fff; border-radius: 16px; padding: 32px; max-width: 560px; width: 100%; box-shadow: 0 10px 25px rgba(0,0,0,.1); }
+      td { padding: 4px 8px; border-bottom: 1px solid #e5e7eb; font-size: 14px; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>CRM client area (mock)</h1>
+      <p>Logged in as <strong>${escape(user.firstName)} ${escape(user.lastName)}</strong> (user ${user.id}, ${escape(user.email)}).</p>
+      <table>${customFields || '<tr><td>No custom fields set</td></tr>'}</table>
+    </main>
+  </body>
+</html>`;
+}
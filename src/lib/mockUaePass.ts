@@ -0,0 +1,770 @@
+/**
+ * Local Mock UAE PASS Identity Provider
+ *
+ * In-process OIDC stand-in served from /api/mock-uae-pass when
+ * UAE_PASS_ENVIRONMENT=local-mock, so the login flow (web and mobile
+ * on-device) can run without a real UAE PASS account. Never enabled in production.
+ *
+ * The login page offers the personas from fixtures/mockUaePassPersonas.json
+ * (UAE PASS userinfo field names), or from UAE_PASS_MOCK_PERSONAS_FILE.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import { SignJWT, compactVerify, exportJWK, generateKeyPair, jwtVerify, JWK, CryptoKey } from 'jose';
+import {
+  ACR_VALUES,
+  ACR_MOBILE_ON_DEVICE,
+  AssuranceLevel,
+  UAEPassUserProfile,
+  getStaticUAEPassConfig,
+} from './uaePass';
+import { createLogger } from './logger';
+import { CLIENT_ASSERTION_TYPE, CLIENT_AUTH_METHODS, getClientAssertionPublicKey } from './clientAuth';
+import bundledPersonas from './fixtures/mockUaePassPersonas.json';
+
+const logger = createLogger('MOCK UAE PASS');
+
+const MOCK_KEY_ID = 'mock-uae-pass-key-1';
+const CODE_TTL_MS = 5 * 60 * 1000; // 5 minutes
+const ACCESS_TOKEN_TTL_SECONDS = 3600;
+const PUSHED_REQUEST_TTL_SECONDS = 90;
+const REQUEST_URI_PREFIX = 'urn:ietf:params:oauth:request_uri:';
+const JWT_SIGNING_ALGS = ['RS256', 'PS256', 'ES256', 'ES384', 'ES512', 'EdDSA'];
+
+// Test user offered on the mock login page
+export interface MockPersona {
+  id: string;
+  label: string;
+  description?: string;
+  outcome?: 'approve' | 'cancel'; // 'cancel' behaves like the user cancelling (default approve)
+  profile?: UAEPassUserProfile; // UAE PASS userinfo response; required unless outcome is 'cancel'
+}
+
+// Authorization request parameters carried through the consent page
+export interface MockAuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  scope: string;
+  state: string;
+  nonce?: string;
+  codeChallenge?: string;
+  codeChallengeMethod?: string;
+  acrValues?: string;
+}
+
+// OAuth error returned by the mock endpoints
+export interface MockOAuthError {
+  error: string;
+  error_description: string;
+  status: number;
+}
+
+interface IssuedCode {
+  request: MockAuthorizationRequest;
+  profile: UAEPassUserProfile;
+  acr: string;
+  authTime: number;
+  sid: string;
+  expiresAt: number;
+}
+
+interface IssuedGrant {
+  profile: UAEPassUserProfile;
+  acr: string;
+  authTime: number;
+  sid: string;
+  expiresAt: number;
+}
+
+interface SigningKeys {
+  privateKey: CryptoKey;
+  publicKey: CryptoKey;
+  publicJwk: JWK;
+}
+
+interface MockState {
+  keys?: Promise<SigningKeys>;
+  codes: Map<string, IssuedCode>;
+  accessTokens: Map<string, IssuedGrant>;
+  refreshTokens: Map<string, IssuedGrant>;
+  serviceTokens: Map<string, { scope: string; expiresAt: number }>;
+  pushedRequests: Map<string, { params: string; expiresAt: number }>;
+}
+
+// Kept on globalThis so state survives dev-server module reloads
+const globalForMock = globalThis as typeof globalThis & { uaePassMockState?: MockState };
+const mockState: MockState = globalForMock.uaePassMockState ??= {
+  codes: new Map(),
+  accessTokens: new Map(),
+  refreshTokens: new Map(),
+  serviceTokens: new Map(),
+  pushedRequests: new Map(),
+};
+
+/**
+ * The mock is only served in local-mock mode and never in production
+ */
+export function isMockIdpEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' && process.env.UAE_PASS_ENVIRONMENT === 'local-mock';
+}
+
+/**
+ * Issuer and endpoints of the mock, taken from the local-mock configuration
+ */
+export function getMockIssuer(): string {
+  return getStaticUAEPassConfig().issuer.replace(/\/+$/, '');
+}
+
+/**
+ * Signing key pair, generated once per process
+ */
+function getSigningKeys(): Promise<SigningKeys> {
+  mockState.keys ??= (async () => {
+    const { privateKey, publicKey } = await generateKeyPair('RS256', { extractable: true });
+    const publicJwk = await exportJWK(publicKey);
+    return { privateKey, publicKey, publicJwk: { ...publicJwk, kid: MOCK_KEY_ID, alg: 'RS256', use: 'sig' } };
+  })();
+  return mockState.keys;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function oauthError(error: string, description: string, status = 400): MockOAuthError {
+  return { error, error_description: description, status };
+}
+
+/**
+ * Personas from UAE_PASS_MOCK_PERSONAS_FILE, or the bundled fixtures
+ * The file is read on every call so edits apply without a restart.
+ */
+export function getMockPersonas(): MockPersona[] {
+  const filePath = process.env.UAE_PASS_MOCK_PERSONAS_FILE;
+  let personas: MockPersona[] = bundledPersonas as MockPersona[];
+
+  if (filePath) {
+    try {
+      personas = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+    } catch (error) {
+      throw new Error(
+        `Failed to read mock personas file ${filePath}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  if (!Array.isArray(personas) || personas.length === 0) {
+    throw new Error('Mock personas must be a non-empty JSON array');
+  }
+  for (const persona of personas) {
+    if (!persona.id || !persona.label) {
+      throw new Error('Every mock persona needs an "id" and a "label"');
+    }
+    if (persona.outcome !== 'cancel' && !persona.profile?.sub) {
+      throw new Error(`Mock persona "${persona.id}" needs a profile with a "sub"`);
+    }
+  }
+  return personas;
+}
+
+export function findMockPersona(id: string | null | undefined): MockPersona | undefined {
+  return getMockPersonas().find(persona => persona.id === id);
+}
+
+/**
+ * Persona selected on the login page by default (UAE_PASS_MOCK_PERSONA, else the first)
+ */
+export function getDefaultMockPersona(): MockPersona {
+  return findMockPersona(process.env.UAE_PASS_MOCK_PERSONA) || getMockPersonas()[0];
+}
+
+/**
+ * Skip the login page and sign in as the default persona (UAE_PASS_MOCK_AUTO_APPROVE=true),
+ * for scripted end-to-end runs
+ */
+export function isMockAutoApproveEnabled(): boolean {
+  return process.env.UAE_PASS_MOCK_AUTO_APPROVE === 'true';
+}
+
+/**
+ * OpenID Provider metadata for the mock
+ */
+export function getMockDiscoveryDocument(): Record<string, unknown> {
+  const issuer = getMockIssuer();
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    userinfo_endpoint: `${issuer}/userinfo`,
+    jwks_uri: `${issuer}/jwks`,
+    end_session_endpoint: `${issuer}/logout`,
+    revocation_endpoint: `${issuer}/revoke`,
+    pushed_authorization_request_endpoint: `${issuer}/par`,
+    request_parameter_supported: true,
+    request_object_signing_alg_values_supported: JWT_SIGNING_ALGS,
+    response_types_supported: ['code'],
+    grant_types_supported: ['authorization_code', 'refresh_token', 'client_credentials'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    token_endpoint_auth_methods_supported: [...CLIENT_AUTH_METHODS],
+    token_endpoint_auth_signing_alg_values_supported: JWT_SIGNING_ALGS,
+    code_challenge_methods_supported: ['S256'],
+    acr_values_supported: [...Object.values(ACR_VALUES), ACR_MOBILE_ON_DEVICE],
+  };
+}
+
+/**
+ * Public signing keys of the mock
+ */
+export async function getMockJwks(): Promise<{ keys: JWK[] }> {
+  const { publicJwk } = await getSigningKeys();
+  return { keys: [publicJwk] };
+}
+
+/**
+ * Validate an incoming authorization request against the configured client
+ */
+export function validateAuthorizationRequest(
+  params: URLSearchParams
+): MockAuthorizationRequest | MockOAuthError {
+  const config = getStaticUAEPassConfig();
+
+  if (params.get('response_type') !== 'code') {
+    return oauthError('unsupported_response_type', 'Only response_type=code is supported');
+  }
+  if (params.get('client_id') !== config.clientId) {
+    return oauthError('invalid_client', 'Unknown client_id', 401);
+  }
+  if (params.get('redirect_uri') !== config.redirectUri) {
+    return oauthError('invalid_request', 'redirect_uri does not match the registered redirect URI');
+  }
+  if (!params.get('state')) {
+    return oauthError('invalid_request', 'state is required');
+  }
+
+  return {
+    clientId: config.clientId,
+    redirectUri: config.redirectUri,
+    scope: params.get('scope') || '',
+    state: params.get('state') || '',
+    nonce: params.get('nonce') || undefined,
+    codeChallenge: params.get('code_challenge') || undefined,
+    codeChallengeMethod: params.get('code_challenge_method') || undefined,
+    acrValues: params.get('acr_values') || undefined,
+  };
+}
+
+/**
+ * Verify a signed request object and return the parameters it carries
+ */
+async function readRequestObject(requestObject: string, clientId: string | null): Promise<URLSearchParams | MockOAuthError> {
+  const config = getStaticUAEPassConfig();
+  try {
+    const { payload } = await jwtVerify(requestObject, getClientAssertionPublicKey(), {
+      issuer: config.clientId,
+      audience: getMockIssuer(),
+      algorithms: JWT_SIGNING_ALGS,
+    });
+    if (clientId && payload.client_id !== clientId) {
+      return oauthError('invalid_request_object', 'client_id does not match the request object');
+    }
+
+    const params = new URLSearchParams();
+    for (const [name, value] of Object.entries(payload)) {
+      if (!['iss', 'aud', 'exp', 'iat', 'nbf', 'jti'].includes(name)) {
+        params.set(name, String(value));
+      }
+    }
+    return params;
+  } catch (error) {
+    logger.warn('Request object rejected:', error instanceof Error ? error.message : error);
+    return oauthError('invalid_request_object', 'Request object is invalid');
+  }
+}
+
+/**
+ * Expand an authorization request sent as a request_uri (PAR) or a signed
+ * request object into its plain parameters; other requests pass through
+ */
+export async function resolveAuthorizationParams(query: URLSearchParams): Promise<URLSearchParams | MockOAuthError> {
+  const requestUri = query.get('request_uri');
+  if (requestUri) {
+    const pushed = mockState.pushedRequests.get(requestUri);
+    // request_uri values are single use
+    mockState.pushedRequests.delete(requestUri);
+    if (!pushed || pushed.expiresAt < Date.now()) {
+      return oauthError('invalid_request_uri', 'request_uri is invalid or expired');
+    }
+    const params = new URLSearchParams(pushed.params);
+    if (query.get('client_id') !== params.get('client_id')) {
+      return oauthError('invalid_request', 'client_id does not match the pushed request');
+    }
+    return params;
+  }
+
+  const requestObject = query.get('request');
+  if (requestObject) {
+    return readRequestObject(requestObject, query.get('client_id'));
+  }
+
+  return query;
+}
+
+/**
+ * Pushed authorization request endpoint (RFC 9126)
+ */
+export async function handlePushedAuthorizationRequest(
+  form: URLSearchParams,
+  authorization: string | null
+): Promise<{ request_uri: string; expires_in: number } | MockOAuthError> {
+  if (!(await authenticateClient(form, authorization))) {
+    return oauthError('invalid_client', 'Client credentials are invalid', 401);
+  }
+  if (form.has('request_uri')) {
+    return oauthError('invalid_request', 'request_uri cannot be pushed');
+  }
+
+  const params = new URLSearchParams(form);
+  for (const name of ['client_secret', 'client_assertion', 'client_assertion_type']) {
+    params.delete(name);
+  }
+
+  const resolved = await resolveAuthorizationParams(params);
+  if ('error' in resolved) {
+    return resolved;
+  }
+  const validated = validateAuthorizationRequest(resolved);
+  if ('error' in validated) {
+    return validated;
+  }
+
+  const requestUri = `${REQUEST_URI_PREFIX}${randomToken()}`;
+  mockState.pushedRequests.set(requestUri, {
+    params: resolved.toString(),
+    expiresAt: Date.now() + PUSHED_REQUEST_TTL_SECONDS * 1000,
+  });
+  logger.info('Authorization request pushed');
+  return { request_uri: requestUri, expires_in: PUSHED_REQUEST_TTL_SECONDS };
+}
+
+/**
+ * Whether the request selects the mobile on-device (app-to-app) flow
+ */
+export function isMobileOnDeviceRequest(request: MockAuthorizationRequest): boolean {
+  return Boolean(request.acrValues?.split(' ').includes(ACR_MOBILE_ON_DEVICE));
+}
+
+/**
+ * Grant the requested level, capped at what the account supports
+ * The on-device app login counts as a substantial (SOP2) authentication
+ */
+function resolveGrantedAcr(request: MockAuthorizationRequest, profile: UAEPassUserProfile): string {
+  const rank: Record<AssuranceLevel, number> = { SOP1: 1, SOP2: 2, SOP3: 3 };
+  const levels = Object.keys(ACR_VALUES) as AssuranceLevel[];
+  const requestedValues = request.acrValues?.split(' ') || [];
+
+  let requested: AssuranceLevel = isMobileOnDeviceRequest(request) ? 'SOP2' : 'SOP1';
+  for (const level of levels) {
+    if (requestedValues.includes(ACR_VALUES[level]) && rank[level] > rank[requested]) {
+      requested = level;
+    }
+  }
+
+  const accountLevel = levels.find(level => level === profile.userType) || 'SOP1';
+  const granted = rank[requested] <= rank[accountLevel] ? requested : accountLevel;
+  return ACR_VALUES[granted];
+}
+
+/**
+ * Issue an authorization code for a persona after the user approves the request
+ */
+export function issueAuthorizationCode(request: MockAuthorizationRequest, profile: UAEPassUserProfile): string {
+  const code = randomToken();
+  mockState.codes.set(code, {
+    request,
+    profile,
+    acr: resolveGrantedAcr(request, profile),
+    authTime: Math.floor(Date.now() / 1000),
+    sid: randomToken(),
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+  logger.info('Issued authorization code for persona:', profile.sub);
+  return code;
+}
+
+/**
+ * Build the redirect back to the client
+ */
+export function buildClientRedirect(
+  request: MockAuthorizationRequest,
+  result: { code: string } | { error: string; errorDescription: string }
+): string {
+  const url = new URL(request.redirectUri);
+  if ('code' in result) {
+    url.searchParams.set('code', result.code);
+  } else {
+    url.searchParams.set('error', result.error);
+    url.searchParams.set('error_description', result.errorDescription);
+  }
+  url.searchParams.set('state', request.state);
+  return url.toString();
+}
+
+/**
+ * Finish the login page: redirect back to the client with a code or a cancellation error
+ */
+export function completeAuthorization(
+  request: MockAuthorizationRequest,
+  decision: string | null,
+  personaId: string | null
+): string | MockOAuthError {
+  if (decision !== 'approve') {
+    return buildClientRedirect(request, getCancellationError(request));
+  }
+
+  const persona = findMockPersona(personaId);
+  if (!persona) {
+    return oauthError('invalid_request', `Unknown mock persona "${personaId}"`);
+  }
+  if (persona.outcome === 'cancel' || !persona.profile) {
+    return buildClientRedirect(request, getCancellationError(request));
+  }
+
+  logger.info('Login approved for persona:', persona.id);
+  return buildClientRedirect(request, { code: issueAuthorizationCode(request, persona.profile) });
+}
+
+/**
+ * Verify a private_key_jwt client assertion against the public half of
+ * UAE_PASS_CLIENT_KEY_FILE, standing in for the key registered with UAE PASS
+ */
+async function verifyClientAssertion(assertion: string, clientId: string | null): Promise<boolean> {
+  const config = getStaticUAEPassConfig();
+  try {
+    const { payload } = await jwtVerify(assertion, getClientAssertionPublicKey(), {
+      issuer: config.clientId,
+      subject: config.clientId,
+      audience: [config.tokenEndpoint, getMockIssuer()],
+      maxTokenAge: '5m',
+    });
+    return !!payload.jti && (!clientId || clientId === config.clientId);
+  } catch (error) {
+    logger.warn('Client assertion rejected:', error instanceof Error ? error.message : error);
+    return false;
+  }
+}
+
+/**
+ * Authenticate the client from the form body, a Basic authorization header
+ * or a private_key_jwt client assertion
+ */
+async function authenticateClient(form: URLSearchParams, authorization: string | null): Promise<boolean> {
+  const config = getStaticUAEPassConfig();
+  let clientId = form.get('client_id');
+  let clientSecret = form.get('client_secret');
+
+  const assertion = form.get('client_assertion');
+  if (assertion) {
+    return form.get('client_assertion_type') === CLIENT_ASSERTION_TYPE &&
+      verifyClientAssertion(assertion, clientId);
+  }
+
+  if (authorization?.startsWith('Basic ')) {
+    const decoded = Buffer.from(authorization.slice(6), 'base64').toString('utf8');
+    const separator = decoded.indexOf(':');
+    const decode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+    clientId = decode(decoded.slice(0, separator));
+    clientSecret = decode(decoded.slice(separator + 1));
+  }
+
+  return !!clientSecret && clientId === config.clientId && clientSecret === config.clientSecret;
+}
+
+/**
+ * Sign an ID token for a grant
+ */
+async function signIdToken(grant: IssuedGrant, accessToken: string, nonce?: string): Promise<string> {
+  const { privateKey } = await getSigningKeys();
+  const config = getStaticUAEPassConfig();
+  const digest = crypto.createHash('sha256').update(accessToken, 'ascii').digest();
+
+  const claims: Record<string, unknown> = {
+    acr: grant.acr,
+    auth_time: grant.authTime,
+    sid: grant.sid,
+    at_hash: digest.subarray(0, digest.length / 2).toString('base64url'),
+  };
+  if (nonce) {
+    claims.nonce = nonce;
+  }
+
+  return new SignJWT(claims)
+    .setProtectedHeader({ alg: 'RS256', kid: MOCK_KEY_ID, typ: 'JWT' })
+    .setIssuer(getMockIssuer())
+    .setSubject(grant.profile.sub)
+    .setAudience(config.clientId)
+    .setIssuedAt()
+    .setExpirationTime(`${ACCESS_TOKEN_TTL_SECONDS}s`)
+    .sign(privateKey);
+}
+
+/**
+ * Issue access, refresh and ID tokens for a grant
+ */
+async function issueTokens(grant: Omit<IssuedGrant, 'expiresAt'>, nonce?: string) {
+  const accessToken = randomToken();
+  const refreshToken = randomToken();
+  const issued: IssuedGrant = { ...grant, expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000 };
+
+  mockState.accessTokens.set(accessToken, issued);
+  mockState.refreshTokens.set(refreshToken, issued);
+
+  return {
+    access_token: accessToken,
+    token_type: 'Bearer',
+    expires_in: ACCESS_TOKEN_TTL_SECONDS,
+    refresh_token: refreshToken,
+    id_token: await signIdToken(issued, accessToken, nonce),
+  };
+}
+
+/**
+ * Token endpoint: authorization_code, refresh_token and client_credentials grants
+ */
+export async function handleTokenRequest(
+  form: URLSearchParams,
+  authorization: string | null
+): Promise<Record<string, unknown> | MockOAuthError> {
+  if (!(await authenticateClient(form, authorization))) {
+    return oauthError('invalid_client', 'Client credentials are invalid', 401);
+  }
+
+  const grantType = form.get('grant_type');
+
+  if (grantType === 'authorization_code') {
+    const code = form.get('code') || '';
+    const issued = mockState.codes.get(code);
+    // Codes are single use
+    mockState.codes.delete(code);
+
+    if (!issued || issued.expiresAt < Date.now()) {
+      return oauthError('invalid_grant', 'Authorization code is invalid or expired');
+    }
+    if (form.get('redirect_uri') !== issued.request.redirectUri) {
+      return oauthError('invalid_grant', 'redirect_uri does not match the authorization request');
+    }
+    if (issued.request.codeChallenge) {
+      const verifier = form.get('code_verifier') || '';
+      const challenge = crypto.createHash('sha256').update(verifier).digest('base64url');
+      if (challenge !== issued.request.codeChallenge) {
+        return oauthError('invalid_grant', 'PKCE verification failed');
+      }
+    }
+
+    return issueTokens(
+      { profile: issued.profile, acr: issued.acr, authTime: issued.authTime, sid: issued.sid },
+      issued.request.nonce
+    );
+  }
+
+  if (grantType === 'refresh_token') {
+    const refreshToken = form.get('refresh_token') || '';
+    const grant = mockState.refreshTokens.get(refreshToken);
+    // Refresh tokens rotate on every use
+    mockState.refreshTokens.delete(refreshToken);
+
+    if (!grant) {
+      return oauthError('invalid_grant', 'Refresh token is invalid');
+    }
+    return issueTokens({ profile: grant.profile, acr: grant.acr, authTime: grant.authTime, sid: grant.sid });
+  }
+
+  if (grantType === 'client_credentials') {
+    // Service-to-service token, e.g. for the digital signature API
+    const accessToken = randomToken();
+    const scope = form.get('scope') || '';
+    mockState.serviceTokens.set(accessToken, {
+      scope,
+      expiresAt: Date.now() + ACCESS_TOKEN_TTL_SECONDS * 1000,
+    });
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: ACCESS_TOKEN_TTL_SECONDS,
+      scope,
+    };
+  }
+
+  return oauthError('unsupported_grant_type', `Unsupported grant_type: ${grantType}`);
+}
+
+/**
+ * Revocation endpoint (RFC 7009): unknown tokens are not an error
+ */
+export async function handleRevocationRequest(
+  form: URLSearchParams,
+  authorization: string | null
+): Promise<MockOAuthError | null> {
+  if (!(await authenticateClient(form, authorization))) {
+    return oauthError('invalid_client', 'Client credentials are invalid', 401);
+  }
+
+  const token = form.get('token') || '';
+  const revoked = mockState.accessTokens.delete(token) || mockState.refreshTokens.delete(token);
+  logger.info('Token revocation:', { revoked, tokenTypeHint: form.get('token_type_hint') });
+  return null;
+}
+
+/**
+ * End the session named by an ID token: its access and refresh tokens stop working
+ * The hint's signature is checked; an expired hint is still accepted, as logout allows
+ */
+async function endSessionForIdToken(idTokenHint: string): Promise<void> {
+  const { publicKey } = await getSigningKeys();
+  let claims: { sid?: string; sub?: string };
+  try {
+    const { payload } = await compactVerify(idTokenHint, publicKey);
+    claims = JSON.parse(new TextDecoder().decode(payload));
+  } catch {
+    logger.warn('Ignoring id_token_hint that was not issued by the mock');
+    return;
+  }
+
+  for (const tokens of [mockState.accessTokens, mockState.refreshTokens]) {
+    for (const [token, grant] of tokens) {
+      if (grant.sid === claims.sid && grant.profile.sub === claims.sub) {
+        tokens.delete(token);
+      }
+    }
+  }
+  logger.info('Session ended for persona:', claims.sub);
+}
+
+/**
+ * Logout endpoint (RP-initiated logout)
+ * Returns the URL to send the browser to: post_logout_redirect_uri (or the
+ * legacy redirect_uri) with the state echoed back
+ */
+export async function handleLogoutRequest(params: URLSearchParams): Promise<string | MockOAuthError> {
+  const config = getStaticUAEPassConfig();
+  const appOrigin = new URL(config.redirectUri).origin;
+  const target = params.get('post_logout_redirect_uri') || params.get('redirect_uri') || appOrigin;
+
+  let redirectUrl: URL;
+  try {
+    redirectUrl = new URL(target);
+  } catch {
+    return oauthError('invalid_request', 'post_logout_redirect_uri is not a valid URL');
+  }
+  // Stand-in for the registered post-logout URIs: anything on the app's origin
+  if (redirectUrl.origin !== appOrigin) {
+    return oauthError('invalid_request', 'post_logout_redirect_uri is not registered for this client');
+  }
+
+  const idTokenHint = params.get('id_token_hint');
+  if (idTokenHint) {
+    await endSessionForIdToken(idTokenHint);
+  }
+
+  const state = params.get('state');
+  if (state) {
+    redirectUrl.searchParams.set('state', state);
+  }
+  return redirectUrl.toString();
+}
+
+/**
+ * Check a Bearer token issued by the client_credentials grant
+ */
+export function isValidServiceToken(authorization: string | null): boolean {
+  const accessToken = authorization?.startsWith('Bearer ') ? authorization.slice(7) : '';
+  const grant = mockState.serviceTokens.get(accessToken);
+  return Boolean(grant && grant.expiresAt > Date.now());
+}
+
+/**
+ * UserInfo endpoint
+ */
+export function handleUserInfoRequest(authorization: string | null): UAEPassUserProfile | MockOAuthError {
+  const accessToken = authorization?.startsWith('Bearer ') ? authorization.slice(7) : '';
+  const grant = mockState.accessTokens.get(accessToken);
+
+  if (!grant || grant.expiresAt < Date.now()) {
+    return oauthError('invalid_token', 'Access token is invalid or expired', 401);
+  }
+  return grant.profile;
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Login page of the mock
+ *
+ * For the mobile on-device flow it simulates the UAE PASS app: approving or
+ * cancelling "in the app" returns the browser to the client's redirect URI.
+ */
+export function renderAuthorizePage(query: URLSearchParams, request: MockAuthorizationRequest): string {
+  const mobile = isMobileOnDeviceRequest(request);
+  const hiddenFields = Array.from(query.entries())
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('\n        ');
+  const defaultPersona = getDefaultMockPersona();
+  const personaOptions = getMockPersonas()
+    .map(persona => `<label class="persona">
+          <input type="radio" name="persona" value="${escapeHtml(persona.id)}"${persona.id === defaultPersona.id ? ' checked' : ''}>
+          <span><strong>${escapeHtml(persona.label)}</strong>${persona.profile?.fullnameEN ? ` &middot; ${escapeHtml(persona.profile.fullnameEN)}` : ''}
+          ${persona.description ? `<small>${escapeHtml(persona.description)}</small>` : ''}</span>
+        </label>`)
+    .join('\n        ');
+  const title = mobile ? 'UAE PASS app (simulated)' : 'UAE PASS (mock)';
+  const approveLabel = mobile ? 'Approve in app' : 'Sign in';
+  const cancelLabel = mobile ? 'Cancel in app' : 'Cancel';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${title}</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #f3f4f6; display: flex; min-height: 100vh; align-items: center; justify-content: center; margin: 0; }
+      main { background: #fff; border-radius: 16px; padding: 32px; max-width: 420px; width: 100%; box-shadow: 0 10px 25px rgba(0,0,0,.1); }
+      button { width: 100%; padding: 12px; margin-top: 12px; border-radius: 8px; border: 0; font-size: 16px; cursor: pointer; }
+      .approve { background: #00a651; color: #fff; }
+      .cancel { background: #e5e7eb; color: #111827; }
+      small { color: #6b7280; display: block; }
+      .persona { display: flex; gap: 8px; align-items: flex-start; padding: 8px 0; border-bottom: 1px solid #e5e7eb; cursor: pointer; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>${title}</h1>
+      <p>${mobile ? 'A login request is waiting for your approval.' : 'Local stand-in for the UAE PASS login page.'}</p>
+      <small>acr_values: ${escapeHtml(request.acrValues || '(none)')}</small>
+      <form method="post">
+        ${hiddenFields}
+        ${personaOptions}
+        <button class="approve" type="submit" name="decision" value="approve">${escapeHtml(approveLabel)}</button>
+        <button class="cancel" type="submit" name="decision" value="cancel">${cancelLabel}</button>
+      </form>
+    </main>
+  </body>
+</html>`;
+}
+
+/**
+ * Error returned to the client when the user cancels
+ * Cancelling inside the app reports cancelledOnApp, as UAE PASS does
+ */
+export function getCancellationError(request: MockAuthorizationRequest): { error: string; errorDescription: string } {
+  return isMobileOnDeviceRequest(request)
+    ? { error: 'access_denied', errorDescription: 'cancelledOnApp' }
+    : { error: 'access_denied', errorDescription: 'User cancelled the login' };
+}
@@ -0,0 +1,201 @@
+/**
+ * Local Mock UAE PASS Digital Signature Service
+ *
+ * In-process stand-in for the eSign API used by src/lib/uaePassSignature.ts,
+ * served from /api/mock-uae-pass alongside the mock identity provider.
+ * The "signed" PDF is the uploaded file with a signature comment appended;
+ * it is not a real PAdES signature.
+ */
+
+import crypto from 'crypto';
+import { MockOAuthError, escapeHtml, getMockIssuer, isValidServiceToken } from './mockUaePass';
+import { createLogger } from './logger';
+
+const logger = createLogger('MOCK UAE PASS SIGN');
+
+// Path of the eSign API below the mock base URL
+export const MOCK_SIGN_API_PATH = 'trustedx-resources/esignsp/v2';
+
+type MockProcessStatus = 'active' | 'finished' | 'canceled';
+
+interface MockSignerProcess {
+  id: string;
+  status: MockProcessStatus;
+  finishCallbackUrl: string;
+  document: { id: string; name: string; content: Buffer };
+  signedContent?: Buffer;
+}
+
+// Kept on globalThis so processes survive dev-server module reloads
+const globalForMock = globalThis as typeof globalThis & {
+  uaePassMockSignerProcesses?: Map<string, MockSignerProcess>;
+};
+const signerProcesses: Map<string, MockSignerProcess> = globalForMock.uaePassMockSignerProcesses ??= new Map();
+
+function unauthorized(): MockOAuthError {
+  return { error: 'invalid_token', error_description: 'Access token is invalid or expired', status: 401 };
+}
+
+function notFound(what: string): MockOAuthError {
+  return { error: 'not_found', error_description: `${what} not found`, status: 404 };
+}
+
+/**
+ * eSign API representation of a process
+ */
+function toResponse(signerProcess: MockSignerProcess): Record<string, unknown> {
+  const issuer = getMockIssuer();
+  return {
+    id: signerProcess.id,
+    status: signerProcess.status,
+    tasks: {
+      pending: signerProcess.status === 'active'
+        ? [{ id: `${signerProcess.id}-sign`, url: `${issuer}/sign/${signerProcess.id}` }]
+        : [],
+    },
+    documents: [
+      {
+        id: signerProcess.document.id,
+        name: signerProcess.document.name,
+        url: `${issuer}/${MOCK_SIGN_API_PATH}/documents/${signerProcess.document.id}/content`,
+      },
+    ],
+  };
+}
+
+/**
+ * POST signer_processes: multipart with a "process" JSON part and a "document" file
+ */
+export async function handleCreateSignerProcess(
+  form: FormData,
+  authorization: string | null
+): Promise<Record<string, unknown> | MockOAuthError> {
+  if (!isValidServiceToken(authorization)) {
+    return unauthorized();
+  }
+
+  const processPart = form.get('process');
+  const documentPart = form.get('document');
+  if (typeof processPart !== 'string' || !(documentPart instanceof Blob)) {
+    return { error: 'invalid_request', error_description: 'Expected "process" and "document" parts', status: 400 };
+  }
+
+  let definition: { finish_callback_url?: string };
+  try {
+    definition = JSON.parse(processPart);
+  } catch {
+    return { error: 'invalid_request', error_description: '"process" is not valid JSON', status: 400 };
+  }
+  if (!definition.finish_callback_url) {
+    return { error: 'invalid_request', error_description: 'finish_callback_url is required', status: 400 };
+  }
+
+  const signerProcess: MockSignerProcess = {
+    id: crypto.randomUUID(),
+    status: 'active',
+    finishCallbackUrl: definition.finish_callback_url,
+    document: {
+      id: crypto.randomUUID(),
+      name: documentPart instanceof File ? documentPart.name : 'document.pdf',
+      content: Buffer.from(await documentPart.arrayBuffer()),
+    },
+  };
+  signerProcesses.set(signerProcess.id, signerProcess);
+  logger.info('Signer process created:', { id: signerProcess.id, size: signerProcess.document.content.length });
+
+  return toResponse(signerProcess);
+}
+
+/**
+ * GET signer_processes/{id}
+ */
+export function handleGetSignerProcess(
+  signerProcessId: string,
+  authorization: string | null
+): Record<string, unknown> | MockOAuthError {
+  if (!isValidServiceToken(authorization)) {
+    return unauthorized();
+  }
+  const signerProcess = signerProcesses.get(signerProcessId);
+  return signerProcess ? toResponse(signerProcess) : notFound('Signer process');
+}
+
+/**
+ * GET documents/{id}/content - the signed PDF once the process has finished
+ */
+export function handleDownloadDocument(documentId: string, authorization: string | null): Buffer | MockOAuthError {
+  if (!isValidServiceToken(authorization)) {
+    return unauthorized();
+  }
+
+  const signerProcess = Array.from(signerProcesses.values()).find(p => p.document.id === documentId);
+  if (!signerProcess) {
+    return notFound('Document');
+  }
+  if (!signerProcess.signedContent) {
+    return { error: 'invalid_request', error_description: 'Document has not been signed', status: 409 };
+  }
+  return signerProcess.signedContent;
+}
+
+/**
+ * Signing page shown to the user (the signing task URL)
+ */
+export function renderSigningPage(signerProcessId: string): string | null {
+  const signerProcess = signerProcesses.get(signerProcessId);
+  if (!signerProcess || signerProcess.status !== 'active') {
+    return null;
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>UAE PASS signing (mock)</title>
+    <style>
+      body { font-family: system-ui, sans-serif; background: #f3f4f6; display: flex; min-height: 100vh; align-items: center; justify-content: center; margin: 0; }
+      main { background: #fff; border-radius: 16px; padding: 32px; max-width: 420px; width: 100%; box-shadow: 0 10px 25px rgba(0,0,0,.1); }
+      button { width: 100%; padding: 12px; margin-top: 12px; border-radius: 8px; border: 0; font-size: 16px; cursor: pointer; }
+      .approve { background: #00a651; color: #fff; }
+      .cancel { background: #e5e7eb; color: #111827; }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>UAE PASS signing (mock)</h1>
+      <p>Sign <strong>${escapeHtml(signerProcess.document.name)}</strong> with your UAE PASS identity?</p>
+      <form method="post">
+        <button class="approve" type="submit" name="decision" value="sign">Sign document</button>
+        <button class="cancel" type="submit" name="decision" value="cancel">Cancel</button>
+      </form>
+    </main>
+  </body>
+</html>`;
+}
+
+/**
+ * Record the user's decision and return the finish_callback_url redirect
+ */
+export function completeSigning(signerProcessId: string, decision: string | null): string | null {
+  const signerProcess = signerProcesses.get(signerProcessId);
+  if (!signerProcess || signerProcess.status !== 'active') {
+    return null;
+  }
+
+  if (decision === 'sign') {
+    signerProcess.status = 'finished';
+    signerProcess.signedContent = Buffer.concat([
+      signerProcess.document.content,
+      Buffer.from(`\n%UAE PASS mock signature ${new Date().toISOString()} process ${signerProcess.id}\n`),
+    ]);
+  } else {
+    signerProcess.status = 'canceled';
+  }
+  logger.info('Signer process completed:', { id: signerProcess.id, status: signerProcess.status });
+
+  const url = new URL(signerProcess.finishCallbackUrl);
+  url.searchParams.set('status', signerProcess.status);
+  url.searchParams.set('signer_process_id', signerProcess.id);
+  return url.toString();
+}
@@ -0,0 +1,79 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpRequestError, setHttpTransport } from './httpTransport';
+import { clearDiscoveryCache, getProviderMetadata, IssuerMismatchError } from './oidcDiscovery';
+
+const ISSUER = 'https://id.example.ae';
+const DISCOVERY_URL = `${ISSUER}/.well-known/openid-configuration`;
+
+function metadata(issuer = ISSUER) {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+  };
+}
+
+const request = vi.fn<(url: string) => Promise<Response>>();
+
+beforeEach(() => {
+  request.mockReset();
+  setHttpTransport('UAE_PASS', { request });
+  vi.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+  clearDiscoveryCache();
+  setHttpTransport('UAE_PASS', null);
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('getProviderMetadata', () => {
+  it('caches the document', async () => {
+    request.mockImplementation(async () => Response.json(metadata()));
+
+    await getProviderMetadata(DISCOVERY_URL, ISSUER);
+    expect(await getProviderMetadata(DISCOVERY_URL, `${ISSUER}/`)).toEqual(metadata());
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('fails fast after a failure until the retry delay has passed', async () => {
+    vi.stubEnv('UAE_PASS_DISCOVERY_RETRY_SECONDS', '30');
+    request.mockRejectedValueOnce(new HttpRequestError('Request failed', DISCOVERY_URL, 'ECONNREFUSED'));
+    request.mockImplementation(async () => Response.json(metadata()));
+
+    await expect(getProviderMetadata(DISCOVERY_URL, ISSUER)).rejects.toBeInstanceOf(HttpRequestError);
+    vi.setSystemTime(Date.now() + 29 * 1000);
+    await expect(getProviderMetadata(DISCOVERY_URL, ISSUER)).rejects.toBeInstanceOf(HttpRequestError);
+    expect(request).toHaveBeenCalledTimes(1);
+
+    vi.setSystemTime(Date.now() + 2 * 1000);
+    expect(await getProviderMetadata(DISCOVERY_URL, ISSUER)).toEqual(metadata());
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('remembers an issuer mismatch as a failure', async () => {
+    request.mockImplementation(async () => Response.json(metadata('https://other.example.ae')));
+
+    await expect(getProviderMetadata(DISCOVERY_URL, ISSUER)).rejects.toBeInstanceOf(IssuerMismatchError);
+    await expect(getProviderMetadata(DISCOVERY_URL, ISSUER)).rejects.toBeInstanceOf(IssuerMismatchError);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects error responses and incomplete documents', async () => {
+    request.mockResolvedValueOnce(new Response('unavailable', { status: 503 }));
+    await expect(getProviderMetadata(DISCOVERY_URL, ISSUER)).rejects.toThrow('status 503');
+
+    clearDiscoveryCache(DISCOVERY_URL);
+    request.mockResolvedValueOnce(Response.json({ issuer: ISSUER }));
+    await expect(getProviderMetadata(DISCOVERY_URL, ISSUER)).rejects.toThrow('missing required fields');
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    request.mockImplementation(async () => Response.json(metadata()));
+
+    await Promise.all([getProviderMetadata(DISCOVERY_URL, ISSUER), getProviderMetadata(DISCOVERY_URL, ISSUER)]);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
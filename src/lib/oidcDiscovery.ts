@@ -0,0 +1,180 @@
+/**
+ * OIDC Discovery Module
+ *
+ * Loads and caches the OpenID Provider metadata published at
+ * `/.well-known/openid-configuration`. Failures (unreachable, invalid or
+ * for another issuer) are cached too, for UAE_PASS_DISCOVERY_RETRY_SECONDS,
+ * so callers do not wait for the timeout on every request meanwhile.
+ * Reference: OpenID Connect Discovery 1.0 - Section 4
+ */
+
+import { uaePassLogger as logger } from './logger';
+import { getHttpTransport } from './httpTransport';
+
+// OpenID Provider metadata (only the fields we use are typed explicitly)
+export interface OIDCProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri: string;
+  end_session_endpoint?: string;
+  revocation_endpoint?: string;
+  scopes_supported?: string[];
+  response_types_supported?: string[];
+  acr_values_supported?: string[];
+  id_token_signing_alg_values_supported?: string[];
+  token_endpoint_auth_methods_supported?: string[];
+  pushed_authorization_request_endpoint?: string; // RFC 9126
+  require_pushed_authorization_requests?: boolean;
+  request_parameter_supported?: boolean;
+  request_object_signing_alg_values_supported?: string[];
+  [key: string]: unknown; // Allow additional provider-specific fields
+}
+
+// Thrown when the discovered issuer does not match the configured issuer
+export class IssuerMismatchError extends Error {
+  constructor(public readonly expected: string, public readonly actual: string) {
+    super(`OIDC discovery issuer mismatch: expected "${expected}" but provider returned "${actual}"`);
+    this.name = 'IssuerMismatchError';
+  }
+}
+
+interface CacheEntry {
+  metadata: OIDCProviderMetadata;
+  expiresAt: number;
+}
+
+interface FailureEntry {
+  error: unknown;
+  expiresAt: number;
+}
+
+const DEFAULT_CACHE_TTL_SECONDS = 3600; // 1 hour
+const DEFAULT_RETRY_SECONDS = 60; // After a failure
+const DISCOVERY_TIMEOUT_MS = 10000; // 10 seconds
+
+// Process-wide cache keyed by discovery URL
+const discoveryCache = new Map<string, CacheEntry>();
+// Recent failures keyed by discovery URL, rethrown until they expire
+const failureCache = new Map<string, FailureEntry>();
+// In-flight requests, so concurrent callers share one fetch
+const pendingRequests = new Map<string, Promise<OIDCProviderMetadata>>();
+
+/**
+ * Get discovery cache TTL from environment (seconds)
+ */
+function getCacheTtlMs(): number {
+  const ttl = parseInt(process.env.UAE_PASS_DISCOVERY_TTL_SECONDS || '', 10);
+  return (Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_CACHE_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Get how long a discovery failure is remembered (ms)
+ */
+function getRetryDelayMs(): number {
+  const seconds = parseInt(process.env.UAE_PASS_DISCOVERY_RETRY_SECONDS || '', 10);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_RETRY_SECONDS) * 1000;
+}
+
+/**
+ * Compare issuer identifiers, ignoring a trailing slash
+ */
+function issuersMatch(expected: string, actual: string): boolean {
+  return expected.replace(/\/+$/, '') === actual.replace(/\/+$/, '');
+}
+
+/**
+ * Build the default discovery URL for an issuer
+ */
+export function buildDiscoveryUrl(issuer: string): string {
+  return `${issuer.replace(/\/+$/, '')}/.well-known/openid-configuration`;
+}
+
+/**
+ * Fetch the discovery document without consulting the cache
+ */
+async function fetchDiscoveryDocument(discoveryUrl: string): Promise<OIDCProviderMetadata> {
+  logger.debug('Fetching OIDC discovery document:', discoveryUrl);
+  const response = await getHttpTransport('UAE_PASS').request(discoveryUrl, {
+    method: 'GET',
+    headers: { Accept: 'application/json' },
+    timeoutMs: DISCOVERY_TIMEOUT_MS,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Discovery request failed with status ${response.status}: ${response.statusText}`);
+  }
+
+  const metadata = (await response.json()) as OIDCProviderMetadata;
+
+  if (!metadata.issuer || !metadata.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+    throw new Error('Discovery document is missing required fields (issuer, authorization_endpoint, token_endpoint, jwks_uri)');
+  }
+
+  return metadata;
+}
+
+/**
+ * Get OpenID Provider metadata, using the process-wide cache when fresh
+ *
+ * @param discoveryUrl - Full URL of the `/.well-known/openid-configuration` document
+ * @param expectedIssuer - Configured issuer; the discovered issuer must match it exactly
+ */
+export async function getProviderMetadata(
+  discoveryUrl: string,
+  expectedIssuer: string
+): Promise<OIDCProviderMetadata> {
+  const cached = discoveryCache.get(discoveryUrl);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.metadata;
+  }
+
+  // Failed recently: fail fast until the retry delay has passed
+  const failure = failureCache.get(discoveryUrl);
+  if (failure && failure.expiresAt > Date.now()) {
+    throw failure.error;
+  }
+
+  let pending = pendingRequests.get(discoveryUrl);
+  if (!pending) {
+    pending = fetchDiscoveryDocument(discoveryUrl).finally(() => {
+      pendingRequests.delete(discoveryUrl);
+    });
+    pendingRequests.set(discoveryUrl, pending);
+  }
+
+  let metadata: OIDCProviderMetadata;
+  try {
+    metadata = await pending;
+    // Reject documents published for a different issuer (OIDC Discovery 1.0 - Section 4.3)
+    if (!issuersMatch(expectedIssuer, metadata.issuer)) {
+      throw new IssuerMismatchError(expectedIssuer, metadata.issuer);
+    }
+  } catch (error) {
+    failureCache.set(discoveryUrl, { error, expiresAt: Date.now() + getRetryDelayMs() });
+    throw error;
+  }
+
+  failureCache.delete(discoveryUrl);
+  discoveryCache.set(discoveryUrl, {
+    metadata,
+    expiresAt: Date.now() + getCacheTtlMs(),
+  });
+  logger.info('OIDC discovery document loaded for issuer:', metadata.issuer);
+
+  return metadata;
+}
+
+/**
+ * Clear cached discovery documents and failures (all, or a single URL)
+ */
+export function clearDiscoveryCache(discoveryUrl?: string): void {
+  if (discoveryUrl) {
+    discoveryCache.delete(discoveryUrl);
+    failureCache.delete(discoveryUrl);
+  } else {
+    discoveryCache.clear();
+    failureCache.clear();
+  }
+}
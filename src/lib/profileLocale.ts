@@ -0,0 +1,90 @@
+/**
+ * Profile Language Helpers
+ *
+ * UAE PASS returns names and nationality in English and Arabic
+ * (firstnameEN / firstnameAR, ...). The normalized profile keeps both, and
+ * these helpers pick one explicitly. Free of server-only imports so client
+ * components can use them.
+ */
+
+// Languages UAE PASS returns profile values in
+export type ProfileLanguage = 'en' | 'ar';
+
+// A profile value in both languages
+export interface LocalizedValue {
+  en?: string;
+  ar?: string;
+  source?: ProfileLanguage; // Language of the default (single-language) value
+}
+
+// Profile fields available in both languages
+export type LocalizedProfileField = 'firstName' | 'lastName' | 'fullName' | 'nationality';
+
+export type LocalizedProfile = Record<LocalizedProfileField, LocalizedValue>;
+
+const ARABIC_SCRIPT = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+
+/**
+ * Parse a user-supplied language (e.g. "ar", "AR", "ar-AE")
+ * Returns null for anything other than English or Arabic
+ */
+export function parseProfileLanguage(value: string | null | undefined): ProfileLanguage | null {
+  const language = value?.trim().toLowerCase().slice(0, 2);
+  return language === 'en' || language === 'ar' ? language : null;
+}
+
+/**
+ * Build a localized value from the language-specific UAE PASS fields
+ *
+ * @param fallback - Untagged value (e.g. OIDC given_name), used only when neither
+ *   language is present; its language is detected from the script
+ */
+export function toLocalizedValue(
+  en: string | undefined,
+  ar: string | undefined,
+  fallback?: string
+): LocalizedValue {
+  const value: LocalizedValue = {};
+  if (en) value.en = en;
+  if (ar) value.ar = ar;
+
+  if (!en && !ar && fallback) {
+    value[ARABIC_SCRIPT.test(fallback) ? 'ar' : 'en'] = fallback;
+  }
+
+  // English first, as the single-language profile fields always did
+  value.source = value.en ? 'en' : value.ar ? 'ar' : undefined;
+  return value;
+}
+
+/**
+ * Pick a value in the requested language, falling back to the other language
+ */
+export function getLocalizedValue(
+  value: LocalizedValue | undefined,
+  language: ProfileLanguage
+): string | undefined {
+  if (!value) return undefined;
+  return value[language] || value[language === 'en' ? 'ar' : 'en'];
+}
+
+/**
+ * Pick a profile field in the requested language
+ *
+ * Falls back to the single-language field for profiles stored before both
+ * languages were kept.
+ */
+export function getProfileValue(
+  profile: { localized?: LocalizedProfile } & Partial<Record<LocalizedProfileField, string>>,
+  field: LocalizedProfileField,
+  language: ProfileLanguage
+): string | undefined {
+  return getLocalizedValue(profile.localized?.[field], language) || profile[field] || undefined;
+}
+
+/**
+ * Text direction for a language, for dir="..." attributes
+ */
+export function getTextDirection(language: ProfileLanguage): 'ltr' | 'rtl' {
+  return language === 'ar' ? 'rtl' : 'ltr';
+}
@@ -0,0 +1,239 @@
+/**
+ * Minimal Redis Client
+ *
+ * Speaks the Redis serialization protocol (RESP2) over one TCP or TLS
+ * connection, enough for simple key/value commands against Redis or any
+ * compatible server (Valkey, KeyDB, Dragonfly, ...). Commands are pipelined
+ * and answered in order; the connection is opened on first use and reopened
+ * after an error. If the server refuses AUTH or SELECT, every command fails
+ * from then on rather than running unauthenticated or on the wrong database.
+ *
+ * URL format: redis://[[user]:password@]host[:port][/db], or rediss:// for TLS.
+ * Reference: https://redis.io/docs/latest/develop/reference/protocol-spec/
+ */
+
+import net from 'net';
+import tls from 'tls';
+import { createLogger } from './logger';
+
+const logger = createLogger('REDIS');
+
+const DEFAULT_PORT = 6379;
+const DEFAULT_TIMEOUT_MS = 5000;
+
+export type RedisReply = string | number | null | RedisReply[];
+
+// An error reply from the server (e.g. "WRONGTYPE ..."), or a connection failure
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RedisError';
+  }
+}
+
+interface PendingCommand {
+  resolve: (reply: RedisReply) => void;
+  reject: (error: Error) => void;
+}
+
+// Marker for a reply that has not fully arrived yet
+const INCOMPLETE = Symbol('incomplete');
+
+type ParseResult = { value: RedisReply | RedisError; offset: number } | typeof INCOMPLETE;
+
+/**
+ * Parse one reply starting at offset
+ */
+function parseReply(buffer: Buffer, offset: number): ParseResult {
+  const lineEnd = buffer.indexOf('\r\n', offset);
+  if (lineEnd < 0) {
+    return INCOMPLETE;
+  }
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new RedisError(line), offset: next };
+    case ':':
+      return { value: parseInt(line, 10), offset: next };
+    case '$': {
+      const length = parseInt(line, 10);
+      if (length < 0) {
+        return { value: null, offset: next };
+      }
+      if (buffer.length < next + length + 2) {
+        return INCOMPLETE;
+      }
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = parseInt(line, 10);
+      if (count < 0) {
+        return { value: null, offset: next };
+      }
+      const items: RedisReply[] = [];
+      let itemError: RedisError | null = null;
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (item === INCOMPLETE) {
+          return INCOMPLETE;
+        }
+        // The whole array is still consumed, keeping later replies in step
+        if (item.value instanceof RedisError) {
+          itemError ??= item.value;
+        } else {
+          items.push(item.value);
+        }
+        position = item.offset;
+      }
+      return { value: itemError || items, offset: position };
+    }
+    default:
+      throw new RedisError(`Unexpected reply type: ${JSON.stringify(type)}`);
+  }
+}
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+function encodeCommand(args: string[]): Buffer {
+  const parts = [`*${args.length}\r\n`];
+  for (const arg of args) {
+    parts.push(`$${Buffer.byteLength(arg)}\r\n${arg}\r\n`);
+  }
+  return Buffer.from(parts.join(''));
+}
+
+export class RedisClient {
+  private readonly url: URL;
+  private readonly timeoutMs: number;
+  private socket: net.Socket | null = null;
+  // Resolves once AUTH and SELECT have succeeded on the current socket
+  private connection: Promise<net.Socket> | null = null;
+  private setupError: RedisError | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private pending: PendingCommand[] = [];
+
+  constructor(url: string, options: { timeoutMs?: number } = {}) {
+    this.url = new URL(url);
+    if (this.url.protocol !== 'redis:' && this.url.protocol !== 'rediss:') {
+      throw new Error(`Unsupported Redis URL scheme: ${this.url.protocol}`);
+    }
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+  }
+
+  /**
+   * Send a command and wait for its reply; error replies reject with RedisError
+   */
+  command(args: string[]): Promise<RedisReply> {
+    if (this.setupError) {
+      return Promise.reject(this.setupError);
+    }
+    return (this.connection || this.connect()).then(socket => this.send(socket, args));
+  }
+
+  /**
+   * Close the connection; pending commands fail
+   */
+  close(): void {
+    this.socket?.destroy();
+  }
+
+  private send(socket: net.Socket, args: string[]): Promise<RedisReply> {
+    return new Promise((resolve, reject) => {
+      if (socket.destroyed) {
+        reject(new RedisError('Redis connection closed'));
+        return;
+      }
+      this.pending.push({ resolve, reject });
+      // Only armed while replies are outstanding, so an idle connection stays open
+      socket.setTimeout(this.timeoutMs);
+      socket.write(encodeCommand(args));
+    });
+  }
+
+  private connect(): Promise<net.Socket> {
+    const host = this.url.hostname || 'localhost';
+    const port = parseInt(this.url.port, 10) || DEFAULT_PORT;
+    const socket = this.url.protocol === 'rediss:'
+      ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host })
+      : net.connect({ host, port });
+
+    socket.setNoDelay(true);
+    socket.on('data', chunk => this.onData(chunk));
+    socket.on('timeout', () => socket.destroy(new RedisError(`Redis at ${host}:${port} timed out`)));
+    socket.on('error', error => logger.error('Connection error:', error.message));
+    socket.on('close', () => this.onClose(socket));
+    this.socket = socket;
+
+    // Commands wait until these succeed
+    const setup: Promise<RedisReply>[] = [];
+    const sendSetup = (args: string[]) => this.send(socket, args).catch((error: Error) => {
+      throw new RedisError(`${args[0]} failed: ${error.message}`);
+    });
+    const password = this.url.password ? decodeURIComponent(this.url.password) : '';
+    if (password) {
+      setup.push(sendSetup(this.url.username ? ['AUTH', decodeURIComponent(this.url.username), password] : ['AUTH', password]));
+    }
+    const db = this.url.pathname.slice(1);
+    if (db && db !== '0') {
+      setup.push(sendSetup(['SELECT', db]));
+    }
+
+    this.connection = Promise.all(setup).then(
+      () => socket,
+      (error: RedisError) => {
+        // An error reply (rather than a lost connection) will not go away by reconnecting
+        if (!socket.destroyed) {
+          logger.error('Connection setup failed, client disabled:', error.message);
+          this.setupError = error;
+          socket.destroy();
+        }
+        throw error;
+      }
+    );
+    return this.connection;
+  }
+
+  private onData(chunk: Buffer): void {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+    let offset = 0;
+    try {
+      while (offset < this.buffer.length) {
+        const result = parseReply(this.buffer, offset);
+        if (result === INCOMPLETE) break;
+        offset = result.offset;
+        const command = this.pending.shift();
+        if (result.value instanceof RedisError) {
+          command?.reject(result.value);
+        } else {
+          command?.resolve(result.value);
+        }
+      }
+    } catch (error) {
+      this.socket?.destroy(error as Error);
+      return;
+    }
+    this.buffer = this.buffer.subarray(offset);
+    if (this.pending.length === 0) {
+      this.socket?.setTimeout(0);
+    }
+  }
+
+  private onClose(socket: net.Socket): void {
+    if (this.socket !== socket) return;
+    this.socket = null;
+    this.connection = null;
+    this.buffer = Buffer.alloc(0);
+    const pending = this.pending;
+    this.pending = [];
+    for (const command of pending) {
+      command.reject(new RedisError('Redis connection closed'));
+    }
+  }
+}
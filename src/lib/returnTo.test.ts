@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getReturnToAllowlist, matchesPathPattern, sanitizeReturnTo } from './returnTo';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('matchesPathPattern', () => {
+  it('matches exact paths and everything below a "/**" pattern', () => {
+    expect(matchesPathPattern('/account', '/account')).toBe(true);
+    expect(matchesPathPattern('/account/settings', '/account')).toBe(false);
+    expect(matchesPathPattern('/account', '/account/**')).toBe(true);
+    expect(matchesPathPattern('/account/settings/email', '/account/**')).toBe(true);
+    expect(matchesPathPattern('/accounting', '/account/**')).toBe(false);
+  });
+});
+
+describe('sanitizeReturnTo', () => {
+  it('keeps allowlisted paths with their query and fragment', () => {
+    expect(sanitizeReturnTo('/')).toBe('/');
+    expect(sanitizeReturnTo('/account/settings?tab=email#top')).toBe('/account/settings?tab=email#top');
+    expect(sanitizeReturnTo('/uae-pass/profile')).toBe('/uae-pass/profile');
+  });
+
+  it('rejects paths that are not on the allowlist', () => {
+    expect(sanitizeReturnTo('/api/uae-pass/logout')).toBeNull();
+    expect(sanitizeReturnTo('/accounting')).toBeNull();
+  });
+
+  it.each([
+    'https://evil.example/account',
+    '//evil.example/account',
+    '/\\evil.example/account',
+    '/\t/evil.example',
+    'javascript:alert(1)',
+    'account/settings',
+  ])('rejects %s, which could leave the origin', value => {
+    expect(sanitizeReturnTo(value)).toBeNull();
+  });
+
+  it('judges the normalized path', () => {
+    expect(sanitizeReturnTo('/account/../api/uae-pass/logout')).toBeNull();
+    expect(sanitizeReturnTo('/api/../account/settings')).toBe('/account/settings');
+  });
+
+  it('rejects empty and overly long values', () => {
+    expect(sanitizeReturnTo('')).toBeNull();
+    expect(sanitizeReturnTo(null)).toBeNull();
+    expect(sanitizeReturnTo(`/account/${'a'.repeat(2048)}`)).toBeNull();
+  });
+
+  it('uses UAE_PASS_RETURN_TO_ALLOWLIST instead of the defaults', () => {
+    vi.stubEnv('UAE_PASS_RETURN_TO_ALLOWLIST', '/dashboard/**, not-a-path');
+
+    expect(getReturnToAllowlist()).toEqual(['/dashboard/**']);
+    expect(sanitizeReturnTo('/dashboard/reports')).toBe('/dashboard/reports');
+    expect(sanitizeReturnTo('/account/settings')).toBeNull();
+  });
+});
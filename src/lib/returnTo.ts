@@ -0,0 +1,73 @@
+/**
+ * Post-Login Return Targets
+ *
+ * Where to send the user after login, from /api/uae-pass/login?returnTo=/some/path.
+ * Only same-origin paths matching the allowlist are accepted, so the login
+ * route cannot be used as an open redirect.
+ *
+ * UAE_PASS_RETURN_TO_ALLOWLIST is a comma-separated list of paths; a trailing
+ * "/**" also matches everything below the path (e.g. /account/**).
+ */
+
+const DEFAULT_ALLOWLIST = ['/', '/uae-pass/profile/**', '/account/**', '/onboarding/**'];
+const MAX_RETURN_TO_LENGTH = 2048;
+
+// Placeholder origin for resolving relative paths; never part of the result
+const BASE_ORIGIN = 'http://return-to.invalid';
+
+/**
+ * Allowed return paths from UAE_PASS_RETURN_TO_ALLOWLIST, or the defaults
+ */
+export function getReturnToAllowlist(): string[] {
+  const configured = (process.env.UAE_PASS_RETURN_TO_ALLOWLIST || '')
+    .split(',')
+    .map(pattern => pattern.trim())
+    .filter(pattern => pattern.startsWith('/'));
+  return configured.length > 0 ? configured : DEFAULT_ALLOWLIST;
+}
+
+/**
+ * Match a path against a pattern: an exact path, or a path ending in "/**"
+ * that also matches everything below it
+ */
+export function matchesPathPattern(pathname: string, pattern: string): boolean {
+  if (pattern.endsWith('/**')) {
+    const prefix = pattern.slice(0, -3);
+    return pathname === prefix || pathname.startsWith(`${prefix}/`) || (prefix === '' && pathname.startsWith('/'));
+  }
+  return pathname === pattern;
+}
+
+/**
+ * Validate a requested return target
+ *
+ * Returns the normalized path (with query and fragment) when it is a
+ * same-origin path on the allowlist, otherwise null. Absolute URLs,
+ * protocol-relative URLs ("//host") and backslash tricks are rejected.
+ */
+export function sanitizeReturnTo(value: string | null | undefined): string | null {
+  if (!value || value.length > MAX_RETURN_TO_LENGTH) {
+    return null;
+  }
+  // Browsers treat "\" like "/" and ignore control characters, so "/\host" or "/\t/host" can leave the origin
+  if (!value.startsWith('/') || value.startsWith('//') || /[\\\u0000-\u001f\u007f]/.test(value)) {
+    return null;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value, BASE_ORIGIN);
+  } catch {
+    return null;
+  }
+  if (url.origin !== BASE_ORIGIN) {
+    return null;
+  }
+
+  // Checked after normalization, so "/account/../api/x" is judged as "/api/x"
+  if (!getReturnToAllowlist().some(pattern => matchesPathPattern(url.pathname, pattern))) {
+    return null;
+  }
+
+  return `${url.pathname}${url.search}${url.hash}`;
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { NextRequest } from 'next/server';
+import { NormalizedUserProfile, SOPLevel } from './uaePass';
+import { SessionData } from './session';
+import { buildDeniedResponse, checkAccess, getRoutePolicy } from './routeProtection';
+
+function session(userType: SOPLevel, acr?: string): SessionData {
+  return {
+    user: { sub: 'user-1', userType, acr } as NormalizedUserProfile,
+    accessToken: 'access-token',
+    idToken: 'id-token',
+    expiresAt: Date.now() + 3600 * 1000,
+    createdAt: Date.now(),
+    lastSeenAt: Date.now(),
+  };
+}
+
+describe('getRoutePolicy', () => {
+  it('applies the most specific matching pattern', () => {
+    expect(getRoutePolicy('/account/settings')).toEqual({ requireSession: true, minSop: 'SOP2' });
+    expect(getRoutePolicy('/uae-pass/profile')).toEqual({ requireSession: true });
+  });
+
+  it('leaves other routes public', () => {
+    expect(getRoutePolicy('/')).toBeNull();
+    expect(getRoutePolicy('/accounting')).toBeNull();
+  });
+});
+
+describe('checkAccess', () => {
+  it('allows anyone on a route without requirements', () => {
+    expect(checkAccess(null, {})).toEqual({ allowed: true });
+  });
+
+  it('asks for a login at the required level when there is no session', () => {
+    expect(checkAccess(null, { requireSession: true, minSop: 'SOP2' })).toEqual({
+      allowed: false,
+      reason: 'SESSION_MISSING',
+      minSop: 'SOP2',
+    });
+  });
+
+  it('allows a user type at or above the policy level', () => {
+    expect(checkAccess(session('SOP2'), { minSop: 'SOP2' })).toEqual({ allowed: true });
+    expect(checkAccess(session('SOP3'), { minSop: 'SOP2' })).toEqual({ allowed: true });
+  });
+
+  it('starts step-up when the user type is below the policy level', () => {
+    expect(checkAccess(session('SOP1'), { minSop: 'SOP2' })).toEqual({
+      allowed: false,
+      reason: 'STEP_UP_REQUIRED',
+      minSop: 'SOP2',
+    });
+  });
+
+  it('goes by the user type, not the ACR of the login', () => {
+    expect(checkAccess(session('SOP1', 'urn:safelayer:tws:policies:authentication:level:high'), { minSop: 'SOP2' }))
+      .toMatchObject({ allowed: false, reason: 'STEP_UP_REQUIRED' });
+    expect(checkAccess(session('SOP3', 'urn:safelayer:tws:policies:authentication:level:low'), { minSop: 'SOP3' }))
+      .toEqual({ allowed: true });
+  });
+
+  it('only lets unknown user types through SOP1 policies', () => {
+    expect(checkAccess(session('UNKNOWN'), { minSop: 'SOP1' })).toEqual({ allowed: true });
+    expect(checkAccess(session('UNKNOWN'), { minSop: 'SOP2' })).toMatchObject({ reason: 'STEP_UP_REQUIRED' });
+  });
+});
+
+describe('buildDeniedResponse', () => {
+  it('redirects pages to step-up and back to the page', () => {
+    const response = buildDeniedResponse(
+      new NextRequest('http://localhost:3000/account/settings?tab=2'),
+      { allowed: false, reason: 'STEP_UP_REQUIRED', minSop: 'SOP2' }
+    );
+    const location = new URL(response.headers.get('location')!);
+
+    expect(response.status).toBe(307);
+    expect(location.pathname).toBe('/api/uae-pass/login');
+    expect(location.searchParams.get('level')).toBe('SOP2');
+    expect(location.searchParams.get('stepUp')).toBe('1');
+    expect(location.searchParams.get('returnTo')).toBe('/account/settings?tab=2');
+  });
+
+  it('answers API routes with 401 or 403 JSON', async () => {
+    const missing = buildDeniedResponse(new NextRequest('http://localhost:3000/api/account'), {
+      allowed: false,
+      reason: 'SESSION_MISSING',
+    });
+    const stepUp = buildDeniedResponse(new NextRequest('http://localhost:3000/api/account'), {
+      allowed: false,
+      reason: 'STEP_UP_REQUIRED',
+      minSop: 'SOP3',
+    });
+
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).error.code).toBe('SESSION_MISSING');
+    expect(stepUp.status).toBe(403);
+    expect((await stepUp.json()).error.code).toBe('STEP_UP_REQUIRED');
+  });
+});
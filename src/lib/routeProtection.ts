@@ -0,0 +1,140 @@
+/**
+ * Route Protection
+ *
+ * Which pages and API routes need a session, and at which SOP level. The
+ * proxy (src/proxy.ts) applies ROUTE_POLICIES to every request:
+ * - pages: no session redirects to login, a user type below minSop starts a
+ *   step-up login; both come back to the page afterwards (returnTo)
+ * - API routes (/api/...): 401 or 403 JSON with an AppError body
+ *
+ * Pages and route handlers can also check for themselves with requireSession()
+ * and withAuth(). The proxy only reads the session; the page's own
+ * getSession() records the activity and renews tokens.
+ */
+
+import { redirect } from 'next/navigation';
+import { NextRequest, NextResponse } from 'next/server';
+import { AssuranceLevel } from './uaePass';
+import { getSession, SessionData } from './session';
+import { buildLoginUrl, buildStepUpUrl, meetsSopLevel } from './assurance';
+import { AppError } from './errors';
+import { matchesPathPattern, sanitizeReturnTo } from './returnTo';
+
+export interface RoutePolicy {
+  requireSession?: boolean;
+  minSop?: AssuranceLevel; // Minimum user type; implies requireSession
+}
+
+// Patterns as in returnTo.ts: an exact path, or "/**" for everything below.
+// The most specific (longest) matching pattern applies.
+export const ROUTE_POLICIES: Record<string, RoutePolicy> = {
+  '/uae-pass/profile/**': { requireSession: true },
+  '/account/**': { requireSession: true, minSop: 'SOP2' },
+};
+
+export type AccessDecision =
+  | { allowed: true }
+  | { allowed: false; reason: 'SESSION_MISSING'; minSop?: AssuranceLevel }
+  | { allowed: false; reason: 'STEP_UP_REQUIRED'; minSop: AssuranceLevel };
+
+/**
+ * Policy for a path, or null when the route is public
+ */
+export function getRoutePolicy(pathname: string): RoutePolicy | null {
+  const pattern = Object.keys(ROUTE_POLICIES)
+    .filter(candidate => matchesPathPattern(pathname, candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return pattern ? ROUTE_POLICIES[pattern] : null;
+}
+
+/**
+ * Decide whether a session satisfies a policy
+ */
+export function checkAccess(session: SessionData | null, policy: RoutePolicy): AccessDecision {
+  if (!policy.requireSession && !policy.minSop) {
+    return { allowed: true };
+  }
+  if (!session) {
+    return { allowed: false, reason: 'SESSION_MISSING', minSop: policy.minSop };
+  }
+  if (policy.minSop && !meetsSopLevel(session.user.userType, policy.minSop)) {
+    return { allowed: false, reason: 'STEP_UP_REQUIRED', minSop: policy.minSop };
+  }
+  return { allowed: true };
+}
+
+export function isApiRoute(pathname: string): boolean {
+  return pathname === '/api' || pathname.startsWith('/api/');
+}
+
+/**
+ * Where to send a page visitor who was denied: login, or step-up login
+ */
+function getDeniedRedirectUrl(decision: Exclude<AccessDecision, { allowed: true }>, returnTo?: string): string {
+  // Only allowlisted targets are passed on; the login route would ignore the rest anyway
+  const target = sanitizeReturnTo(returnTo) || undefined;
+  return decision.reason === 'STEP_UP_REQUIRED'
+    ? buildStepUpUrl(decision.minSop, target)
+    : buildLoginUrl(target, decision.minSop);
+}
+
+/**
+ * 401 (no session) or 403 (level too low) JSON for API clients
+ */
+export function buildDeniedApiResponse(decision: Exclude<AccessDecision, { allowed: true }>): NextResponse {
+  const error = decision.reason === 'STEP_UP_REQUIRED'
+    ? new AppError('STEP_UP_REQUIRED', `User type below ${decision.minSop}`)
+    : new AppError('SESSION_MISSING');
+  return NextResponse.json(
+    {
+      error: error.toJSON(),
+      // Where a browser client can send the user to fix it
+      loginUrl: getDeniedRedirectUrl(decision),
+    },
+    { status: decision.reason === 'STEP_UP_REQUIRED' ? 403 : 401, headers: { 'Cache-Control': 'no-store' } }
+  );
+}
+
+/**
+ * Response for a request the policy denies: redirect for pages, JSON for API routes
+ */
+export function buildDeniedResponse(request: NextRequest, decision: Exclude<AccessDecision, { allowed: true }>): NextResponse {
+  const { pathname, search } = request.nextUrl;
+  if (isApiRoute(pathname)) {
+    return buildDeniedApiResponse(decision);
+  }
+  return NextResponse.redirect(new URL(getDeniedRedirectUrl(decision, `${pathname}${search}`), request.url));
+}
+
+/**
+ * Require a session (and optionally a minimum user type) in a Server Component
+ * or Server Action; redirects to login or step-up otherwise
+ *
+ * @param options.returnTo - Path of the current page, to come back to after login
+ */
+export async function requireSession(options: { minSop?: AssuranceLevel; returnTo?: string } = {}): Promise<SessionData> {
+  const session = await getSession();
+  const decision = checkAccess(session, { requireSession: true, minSop: options.minSop });
+  if (!decision.allowed) {
+    redirect(getDeniedRedirectUrl(decision, options.returnTo));
+  }
+  return session!;
+}
+
+/**
+ * Wrap a route handler so it only runs with a session (and minimum user type)
+ * The handler receives the session in its context; otherwise 401/403 JSON is returned.
+ */
+export function withAuth<Context>(
+  handler: (request: NextRequest, context: Context & { session: SessionData }) => Response | Promise<Response>,
+  options: { minSop?: AssuranceLevel } = {}
+): (request: NextRequest, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    const session = await getSession();
+    const decision = checkAccess(session, { requireSession: true, minSop: options.minSop });
+    if (!decision.allowed) {
+      return buildDeniedApiResponse(decision);
+    }
+    return handler(request, { ...context, session: session! });
+  };
+}
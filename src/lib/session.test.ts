@@ -0,0 +1,206 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { UnsecuredJWT } from 'jose';
+import { NormalizedUserProfile } from './uaePass';
+import { SessionIndex, SessionStore, setSessionStore } from './sessionStore';
+import { createSession, getSession, isSessionRevoked, revokeSessions, SessionData } from './session';
+
+// A browser's cookie jar, swapped per test
+const cookieJar = new Map<string, string>();
+
+vi.mock('next/headers', () => ({
+  cookies: async () => ({
+    get: (name: string) => (cookieJar.has(name) ? { name, value: cookieJar.get(name)! } : undefined),
+    getAll: () => [...cookieJar].map(([name, value]) => ({ name, value })),
+    set: (name: string, value: string) => cookieJar.set(name, value),
+    delete: (name: string) => cookieJar.delete(name),
+  }),
+}));
+
+// Stands in for a store shared by several app instances
+class TestSessionStore implements SessionStore {
+  readonly entries = new Map<string, { value: string; index?: SessionIndex }>();
+
+  async get(id: string) {
+    return this.entries.get(id)?.value ?? null;
+  }
+
+  async set(id: string, value: string, _ttlSeconds: number, index?: SessionIndex) {
+    this.entries.set(id, { value, index });
+  }
+
+  async delete(id: string) {
+    this.entries.delete(id);
+  }
+
+  async find(query: SessionIndex) {
+    return [...this.entries]
+      .filter(([, entry]) => (!query.sub || entry.index?.sub === query.sub) && (!query.sid || entry.index?.sid === query.sid))
+      .map(([id]) => id);
+  }
+
+  async sweep() {
+    return 0;
+  }
+}
+
+// Revocations are process-wide, so every test uses its own subjects and logout tokens
+let counter = 0;
+function unique(prefix: string): string {
+  counter++;
+  return `${prefix}-${Date.now()}-${counter}`;
+}
+
+function profile(sub: string): NormalizedUserProfile {
+  return {
+    fullName: 'Test User',
+    firstName: 'Test',
+    lastName: 'User',
+    emiratesId: '784-1990-1234567-1',
+    mobile: '971500000000',
+    email: 'test@example.com',
+    localized: {} as NormalizedUserProfile['localized'],
+    sub,
+    userType: 'SOP2',
+  };
+}
+
+function session(sub: string, sid?: string, createdAt = Date.now() - 1000): SessionData {
+  return {
+    user: profile(sub),
+    accessToken: 'access-token',
+    idToken: 'id-token',
+    expiresAt: Date.now() + 3600 * 1000,
+    sid,
+    createdAt,
+    lastSeenAt: createdAt,
+  };
+}
+
+async function revoke(target: { sub?: string; sid?: string }): Promise<boolean> {
+  return revokeSessions(target, unique('jti'), Date.now() + 120 * 1000);
+}
+
+describe('isSessionRevoked', () => {
+  let store: TestSessionStore;
+
+  beforeEach(() => {
+    store = new TestSessionStore();
+    setSessionStore(store);
+  });
+
+  afterEach(() => {
+    setSessionStore(null);
+    vi.useRealTimers();
+  });
+
+  it('ends only the session with that sid when the logout names only a sid', async () => {
+    const sid = unique('sid');
+    const sub = unique('sub');
+    await revoke({ sid });
+
+    expect(isSessionRevoked(session(sub, sid))).toBe(true);
+    expect(isSessionRevoked(session(sub, unique('sid')))).toBe(false);
+    // Sessions without a sid (of any user) are not matched by a sid-only logout
+    expect(isSessionRevoked(session(sub))).toBe(false);
+    expect(isSessionRevoked(session(unique('sub')))).toBe(false);
+  });
+
+  it('ends every session of the subject when the logout names only a sub', async () => {
+    const sub = unique('sub');
+    await revoke({ sub });
+
+    expect(isSessionRevoked(session(sub))).toBe(true);
+    expect(isSessionRevoked(session(sub, unique('sid')))).toBe(true);
+    expect(isSessionRevoked(session(unique('sub')))).toBe(false);
+  });
+
+  it('requires the subject and, when the session has one, the sid when the logout names both', async () => {
+    const sub = unique('sub');
+    const sid = unique('sid');
+    await revoke({ sub, sid });
+
+    expect(isSessionRevoked(session(sub, sid))).toBe(true);
+    expect(isSessionRevoked(session(sub))).toBe(true);
+    expect(isSessionRevoked(session(sub, unique('sid')))).toBe(false);
+    expect(isSessionRevoked(session(unique('sub'), sid))).toBe(false);
+  });
+
+  it('does not end sessions created after the logout', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    const sub = unique('sub');
+    await revoke({ sub });
+    vi.setSystemTime(Date.now() + 1000);
+
+    expect(isSessionRevoked(session(sub, undefined, Date.now()))).toBe(false);
+  });
+
+  it('ignores a replayed logout token', async () => {
+    const jti = unique('jti');
+    expect(await revokeSessions({ sub: unique('sub') }, jti, Date.now() + 120 * 1000)).toBe(true);
+    expect(await revokeSessions({ sub: unique('sub') }, jti, Date.now() + 120 * 1000)).toBe(false);
+  });
+});
+
+describe('revokeSessions', () => {
+  let store: TestSessionStore;
+
+  beforeEach(() => {
+    store = new TestSessionStore();
+    setSessionStore(store);
+  });
+
+  afterEach(() => {
+    setSessionStore(null);
+  });
+
+  // Logs in a new browser and returns its cookies
+  async function login(sub: string, sid?: string): Promise<Map<string, string>> {
+    cookieJar.clear();
+    const idToken = new UnsecuredJWT(sid ? { sid } : {}).setSubject(sub).encode();
+    await createSession(profile(sub), { accessToken: 'access-token', idToken, expiresIn: 3600 });
+    return new Map(cookieJar);
+  }
+
+  async function sessionIn(browser: Map<string, string>): Promise<SessionData | null> {
+    cookieJar.clear();
+    browser.forEach((value, name) => cookieJar.set(name, value));
+    return getSession();
+  }
+
+  it('deletes matching sessions from the store, so every instance rejects them', async () => {
+    const sub = unique('sub');
+    const sid = unique('sid');
+    const revoked = await login(sub, sid);
+    const otherSid = await login(sub, unique('sid'));
+    const otherUser = await login(unique('sub'));
+    expect(store.entries.size).toBe(3);
+
+    await revoke({ sid });
+
+    expect(store.entries.size).toBe(2);
+    expect(await sessionIn(revoked)).toBeNull();
+    expect(await sessionIn(otherSid)).not.toBeNull();
+    expect(await sessionIn(otherUser)).not.toBeNull();
+  });
+
+  it('deletes every session of the subject for a sub-only logout', async () => {
+    const sub = unique('sub');
+    await login(sub, unique('sid'));
+    await login(sub);
+    const otherUser = await login(unique('sub'));
+
+    await revoke({ sub });
+
+    expect(store.entries.size).toBe(1);
+    expect(await sessionIn(otherUser)).not.toBeNull();
+  });
+
+  it('lets the logout be retried when the store fails', async () => {
+    const jti = unique('jti');
+    const target = { sub: unique('sub') };
+    vi.spyOn(store, 'find').mockRejectedValueOnce(new Error('store down'));
+
+    await expect(revokeSessions(target, jti, Date.now() + 120 * 1000)).rejects.toThrow('store down');
+    expect(await revokeSessions(target, jti, Date.now() + 120 * 1000)).toBe(true);
+  });
+});
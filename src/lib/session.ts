@@ -1,162 +1,521 @@
 /**
  * Session Management Utilities
  * 
- * Handles secure storage and retrieval of session data using HTTP-only cookies
+ * Handles secure storage and retrieval of session data. The session cookie
+ * (HTTP-only) holds only an opaque session ID; tokens and profile are kept in
+ * the server-side session store (src/lib/sessionStore.ts).
+ *
+ * Sessions end after SESSION_IDLE_TIMEOUT_SECONDS without a request (default
+ * 30 minutes) and at the latest SESSION_MAX_AGE_SECONDS after login (default
+ * 8 hours). Each request slides the idle deadline and re-issues the cookie.
+ *
+ * Sessions are stored indexed by the UAE PASS subject and session ID (sid), so
+ * a back-channel logout can end them: revokeSessions() deletes every matching
+ * session from the store, which every app instance shares (file, redis).
  */
 
+import crypto from 'crypto';
 import { cookies } from 'next/headers';
-import { SignJWT, jwtVerify } from 'jose';
-import { NormalizedUserProfile } from './uaePass';
+import { decodeJwt } from 'jose';
+import { NormalizedUserProfile, refreshTokens } from './uaePass';
+import { getSessionStore, SessionIndex } from './sessionStore';
+import { encryptPayload, decryptPayload } from './keyManager';
+import { authLogger as logger } from './logger';
 
 const SESSION_COOKIE_NAME = 'uaepass_session';
-const STATE_COOKIE_NAME = 'uaepass_state';
-const NONCE_COOKIE_NAME = 'uaepass_nonce';
-const PKCE_COOKIE_NAME = 'uaepass_pkce';
+const LOGOUT_STATE_COOKIE_NAME = 'uaepass_logout_state';
+
+// Renew the access token this many seconds before it expires
+const DEFAULT_REFRESH_THRESHOLD_SECONDS = 60;
+// Absolute session lifetime, counted from login
+const DEFAULT_SESSION_MAX_AGE_SECONDS = 8 * 60 * 60; // 8 hours
+// Inactivity after which a session ends
+const DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS = 30 * 60; // 30 minutes
+// lastSeenAt is written back at most this often, not on every request
+const ACTIVITY_UPDATE_INTERVAL_MS = 60 * 1000;
 
 // Session data structure
 export interface SessionData {
   user: NormalizedUserProfile;
   accessToken: string;
   idToken: string;
-  expiresAt: number;
+  expiresAt: number; // Access token expiry (ms since epoch)
+  refreshToken?: string; // Encrypted (JWE) - never stored in plaintext
+  sid?: string; // UAE PASS session ID from the ID token, when the provider issues one
+  createdAt: number; // Login time (ms since epoch)
+  lastSeenAt: number; // Last request with this session (ms since epoch), for the idle timeout
+}
+
+// Sessions ended by a back-channel logout
+interface SessionRevocation {
+  sub?: string;
+  sid?: string;
+  revokedAt: number; // Sessions created up to this time are ended
 }
 
+interface RevocationState {
+  revocations: SessionRevocation[];
+  logoutTokenIds: Map<string, number>; // jti -> expiry (ms), to reject replays
+}
+
+// Kept on globalThis so revocations survive dev-server module reloads. The
+// sessions themselves are deleted from the store; the revocations only keep
+// this process from accepting a matching session it still had in hand.
+const globalForRevocations = globalThis as typeof globalThis & { sessionRevocationState?: RevocationState };
+const revocationState: RevocationState = globalForRevocations.sessionRevocationState ??= {
+  revocations: [],
+  logoutTokenIds: new Map(),
+};
+
 /**
- * Get session secret from environment or generate a default (for development only)
+ * Encrypt a refresh token so it is never stored in plaintext
  */
-function getSessionSecret(): Uint8Array {
-  const secret = process.env.SESSION_SECRET || 'dev-secret-change-in-production';
-  return new TextEncoder().encode(secret);
+async function sealRefreshToken(refreshToken: string): Promise<string> {
+  return encryptPayload(refreshToken, 'refresh-token');
+}
+
+/**
+ * Decrypt a refresh token previously sealed with sealRefreshToken
+ */
+async function unsealRefreshToken(sealed: string): Promise<string> {
+  return decryptPayload(sealed, 'refresh-token');
+}
+
+function getRefreshThresholdMs(): number {
+  const seconds = parseInt(process.env.SESSION_REFRESH_THRESHOLD_SECONDS || '', 10);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_REFRESH_THRESHOLD_SECONDS) * 1000;
+}
+
+function getSessionMaxAge(): number {
+  const seconds = parseInt(process.env.SESSION_MAX_AGE_SECONDS || '', 10);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_SESSION_MAX_AGE_SECONDS;
+}
+
+// 0 disables the idle timeout
+function getSessionIdleTimeout(): number {
+  const seconds = parseInt(process.env.SESSION_IDLE_TIMEOUT_SECONDS || '', 10);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds : DEFAULT_SESSION_IDLE_TIMEOUT_SECONDS;
+}
+
+/**
+ * When a session ends (ms since epoch): at the idle or absolute timeout,
+ * whichever comes first
+ *
+ * Without a refresh token the session also ends with its access token; with
+ * one, getSession() renews the access token until then.
+ */
+export function getSessionExpiresAt(session: SessionData): number {
+  // Sessions from before lastSeenAt was recorded count as last seen at login
+  const lastSeenAt = session.lastSeenAt || session.createdAt || 0;
+  const idleTimeout = getSessionIdleTimeout();
+
+  let expiresAt = (session.createdAt || 0) + getSessionMaxAge() * 1000;
+  if (idleTimeout > 0) {
+    expiresAt = Math.min(expiresAt, lastSeenAt + idleTimeout * 1000);
+  }
+  if (!session.refreshToken) {
+    expiresAt = Math.min(expiresAt, session.expiresAt);
+  }
+  return expiresAt;
+}
+
+/**
+ * Seconds until the session ends, e.g. to warn the user before it does
+ */
+export function getSessionTimeRemaining(session: SessionData): number {
+  return Math.max(0, Math.floor((getSessionExpiresAt(session) - Date.now()) / 1000));
+}
+
+/**
+ * Lifetime of the stored session and its cookie in seconds
+ */
+function getSessionTtlSeconds(sessionData: SessionData): number {
+  return Math.max(1, Math.ceil((getSessionExpiresAt(sessionData) - Date.now()) / 1000));
+}
+
+/**
+ * Key of a session in the store: a hash of the cookie's session ID, so stored
+ * keys (files, Redis keys) cannot be replayed as cookies
+ */
+function getSessionStoreKey(sessionId: string): string {
+  return crypto.createHash('sha256').update(sessionId).digest('base64url');
+}
+
+/**
+ * Hash of a sub or sid for the store's index, so the store holds no identifiers in the clear
+ */
+function hashIndexValue(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('base64url');
+}
+
+function getSessionIndex(session: { sub?: string; sid?: string }): SessionIndex {
+  return {
+    sub: session.sub ? hashIndexValue(session.sub) : undefined,
+    sid: session.sid ? hashIndexValue(session.sid) : undefined,
+  };
+}
+
+/**
+ * Encrypt session data and put it in the store, indexed by sub and sid
+ */
+async function storeSessionData(key: string, sessionData: SessionData): Promise<void> {
+  const payload = await encryptPayload(JSON.stringify(sessionData), 'session');
+  const index = getSessionIndex({ sub: sessionData.user?.sub, sid: sessionData.sid });
+  await getSessionStore().set(key, payload, getSessionTtlSeconds(sessionData), index);
+}
+
+/**
+ * Read and decrypt session data from the store
+ * A payload that no key in the keyring can decrypt counts as no session
+ */
+async function loadSessionData(key: string): Promise<SessionData | null> {
+  const payload = await getSessionStore().get(key);
+  if (!payload) {
+    return null;
+  }
+  try {
+    return JSON.parse(await decryptPayload(payload, 'session')) as SessionData;
+  } catch (error) {
+    logger.warn('Stored session could not be decrypted:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Write the session ID to the session cookie
+ */
+async function writeSessionCookie(sessionId: string, maxAge: number): Promise<void> {
+  const cookieStore = await cookies();
+  cookieStore.set(SESSION_COOKIE_NAME, sessionId, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path: '/',
+    maxAge,
+  });
+}
+
+/**
+ * Store session data and write its ID to the session cookie
+ */
+async function saveSession(sessionId: string, sessionData: SessionData): Promise<void> {
+  await storeSessionData(getSessionStoreKey(sessionId), sessionData);
+  await writeSessionCookie(sessionId, getSessionTtlSeconds(sessionData));
 }
 
 /**
  * Create or update a session
+ *
+ * Every login gets a new session ID; a session already in this browser is ended.
+ * Returns the new session.
  */
 export async function createSession(userData: NormalizedUserProfile, tokens: {
   accessToken: string;
   idToken: string;
   expiresIn: number;
-}): Promise<void> {
-  const cookieStore = await cookies();
-  const expiresAt = Date.now() + tokens.expiresIn * 1000;
+  refreshToken?: string;
+}): Promise<SessionData> {
+  // The ID token was validated by the caller; sid makes the session findable by back-channel logout
+  let sid: string | undefined;
+  try {
+    const claims = decodeJwt(tokens.idToken);
+    sid = typeof claims.sid === 'string' ? claims.sid : undefined;
+  } catch {
+    logger.debug('ID token could not be decoded for sid, session can only be ended by subject');
+  }
 
   const sessionData: SessionData = {
     user: userData,
     accessToken: tokens.accessToken,
     idToken: tokens.idToken,
-    expiresAt,
+    expiresAt: Date.now() + tokens.expiresIn * 1000,
+    sid,
+    createdAt: Date.now(),
+    lastSeenAt: Date.now(),
   };
 
-  // Encrypt session data
-  const token = await new SignJWT(sessionData)
-    .setProtectedHeader({ alg: 'HS256' })
-    .setIssuedAt()
-    .setExpirationTime(Math.floor(expiresAt / 1000))
-    .sign(getSessionSecret());
+  if (tokens.refreshToken) {
+    sessionData.refreshToken = await sealRefreshToken(tokens.refreshToken);
+  }
 
-  cookieStore.set(SESSION_COOKIE_NAME, token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    path: '/',
-    maxAge: tokens.expiresIn,
-  });
+  const cookieStore = await cookies();
+  const previousSessionId = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (previousSessionId) {
+    await getSessionStore().delete(getSessionStoreKey(previousSessionId));
+  }
+
+  await saveSession(crypto.randomBytes(32).toString('base64url'), sessionData);
+  return sessionData;
 }
 
+// In-flight renewals keyed by session, so concurrent requests do not redeem
+// the same (possibly single-use) refresh token twice
+const pendingRenewals = new Map<string, Promise<SessionData | null>>();
+
 /**
- * Get current session
+ * Renew the access token with the stored refresh token and store the result
+ * Returns null if the session cannot be renewed
  */
-export async function getSession(): Promise<SessionData | null> {
-  const cookieStore = await cookies();
-  const token = cookieStore.get(SESSION_COOKIE_NAME)?.value;
-
-  if (!token) {
+async function renewSession(sessionId: string, session: SessionData): Promise<SessionData | null> {
+  if (!session.refreshToken) {
     return null;
   }
 
-  try {
-    const { payload } = await jwtVerify(token, getSessionSecret());
-    return payload as SessionData;
-  } catch (error) {
-    // Session expired or invalid
-    return null;
+  const key = getSessionStoreKey(sessionId);
+  let pending = pendingRenewals.get(key);
+  if (!pending) {
+    const sealed = session.refreshToken;
+    pending = (async () => {
+      try {
+        const tokens = await refreshTokens(await unsealRefreshToken(sealed));
+        logger.info('Session access token renewed');
+        const renewed: SessionData = {
+          ...session,
+          accessToken: tokens.access_token,
+          // The ID token from login is kept: a refreshed one is not validated here,
+          // and the login's token is all logout needs (id_token_hint)
+          idToken: session.idToken,
+          expiresAt: Date.now() + (tokens.expires_in || 3600) * 1000,
+          // Keep the previous refresh token if the provider did not rotate it
+          refreshToken: tokens.refresh_token ? await sealRefreshToken(tokens.refresh_token) : sealed,
+        };
+        // Stored before the renewal is released, so later requests read the new tokens
+        await storeSessionData(key, renewed);
+        return renewed;
+      } catch (error) {
+        logger.warn('Session renewal failed:', error instanceof Error ? error.message : error);
+        return null;
+      } finally {
+        pendingRenewals.delete(key);
+      }
+    })();
+    pendingRenewals.set(key, pending);
   }
+
+  return pending;
 }
 
 /**
- * Delete session (logout)
+ * Drop revocations older than any session they could still match: a session
+ * created before revokedAt has ended after the absolute session lifetime
  */
-export async function deleteSession(): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.delete(SESSION_COOKIE_NAME);
+function pruneRevocations(): void {
+  const now = Date.now();
+  const retentionMs = getSessionMaxAge() * 1000;
+  revocationState.revocations = revocationState.revocations.filter(r => r.revokedAt + retentionMs > now);
+  for (const [jti, expiresAt] of revocationState.logoutTokenIds) {
+    if (expiresAt <= now) revocationState.logoutTokenIds.delete(jti);
+  }
 }
 
 /**
- * Store state for CSRF protection
+ * Whether a back-channel logout applies to a session created before it
+ *
+ * A logout naming only a sid ends the session with exactly that sid; one
+ * naming only a sub ends every session of that subject. With both, the
+ * subject must match, and so must the sid unless the session has none (the
+ * provider did not issue one).
  */
-export async function setState(state: string): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.set(STATE_COOKIE_NAME, state, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    path: '/',
-    maxAge: 600, // 10 minutes
-  });
+function matchesRevocation(session: SessionData, revocation: SessionRevocation): boolean {
+  // Sessions from before createdAt was recorded count as created at the epoch
+  if ((session.createdAt || 0) > revocation.revokedAt) return false;
+  if (revocation.sub) {
+    if (revocation.sub !== session.user?.sub) return false;
+    return !revocation.sid || !session.sid || revocation.sid === session.sid;
+  }
+  return !!revocation.sid && revocation.sid === session.sid;
 }
 
 /**
- * Get and validate state
+ * Whether a back-channel logout processed by this process ended the session
  */
-export async function getState(): Promise<string | null> {
-  const cookieStore = await cookies();
-  return cookieStore.get(STATE_COOKIE_NAME)?.value || null;
+export function isSessionRevoked(session: SessionData): boolean {
+  return revocationState.revocations.some(revocation => matchesRevocation(session, revocation));
 }
 
 /**
- * Delete state after validation
+ * End every session matching a back-channel logout (by sub and/or sid)
+ *
+ * Matching sessions are deleted from the store. If the store fails, the error
+ * is thrown and the logout token is not recorded, so a retry is processed.
+ *
+ * @param logoutTokenId - jti of the logout token; a replayed token is ignored
+ * @param logoutTokenExpiresAt - expiry of the logout token (ms since epoch)
+ * @returns false when the logout token was already processed
  */
-export async function deleteState(): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.delete(STATE_COOKIE_NAME);
+export async function revokeSessions(
+  target: { sub?: string; sid?: string },
+  logoutTokenId: string,
+  logoutTokenExpiresAt: number
+): Promise<boolean> {
+  pruneRevocations();
+
+  if (revocationState.logoutTokenIds.has(logoutTokenId)) {
+    logger.warn('Ignoring replayed logout token');
+    return false;
+  }
+  if (!target.sub && !target.sid) {
+    return false;
+  }
+  revocationState.logoutTokenIds.set(logoutTokenId, logoutTokenExpiresAt);
+
+  const revocation: SessionRevocation = { sub: target.sub, sid: target.sid, revokedAt: Date.now() };
+  revocationState.revocations.push(revocation);
+
+  try {
+    // Candidates by subject (or sid alone); the exact rule is applied to each decrypted session
+    const index = getSessionIndex(target);
+    const store = getSessionStore();
+    let ended = 0;
+    for (const key of await store.find(index.sub ? { sub: index.sub } : { sid: index.sid })) {
+      const session = await loadSessionData(key);
+      if (session && matchesRevocation(session, revocation)) {
+        await store.delete(key);
+        ended++;
+      }
+    }
+    logger.info('Sessions ended by back-channel logout:', { sub: target.sub, sid: target.sid, ended });
+  } catch (error) {
+    revocationState.logoutTokenIds.delete(logoutTokenId);
+    throw error;
+  }
+  return true;
+}
+
+// Anything cookies can be read from: cookies() or NextRequest.cookies
+interface CookieReader {
+  get(name: string): { value: string } | undefined;
 }
 
 /**
- * Store nonce for ID token validation
+ * Load a stored session by ID; an unreachable store counts as no session
  */
-export async function setNonce(nonce: string): Promise<void> {
-  const cookieStore = await cookies();
-  cookieStore.set(NONCE_COOKIE_NAME, nonce, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'lax',
-    path: '/',
-    maxAge: 600, // 10 minutes
-  });
+async function loadSession(sessionId: string): Promise<SessionData | null> {
+  try {
+    return await loadSessionData(getSessionStoreKey(sessionId));
+  } catch (error) {
+    logger.error('Session store unavailable:', error instanceof Error ? error.message : error);
+    return null;
+  }
 }
 
 /**
- * Get nonce
+ * Read the current session without counting the request as activity,
+ * renewing tokens or writing cookies (e.g. from the proxy, with request.cookies)
  */
-export async function getNonce(): Promise<string | null> {
+export async function peekSession(cookieStore: CookieReader): Promise<SessionData | null> {
+  const sessionId = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  const session = sessionId ? await loadSession(sessionId) : null;
+  if (!session || isSessionRevoked(session) || getSessionExpiresAt(session) <= Date.now()) {
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Get current session
+ *
+ * Returns null once the session is idle or past its absolute lifetime (see
+ * getSessionExpiresAt). Otherwise the request counts as activity and the
+ * cookie is re-issued with the new deadline.
+ *
+ * If the access token is about to expire (SESSION_REFRESH_THRESHOLD_SECONDS,
+ * default 60) and a refresh token is stored, the session is renewed silently.
+ * The renewed session is stored server-side, so this works in Server Components
+ * too; only extending the cookie's lifetime needs a Server Action or Route Handler.
+ */
+export async function getSession(): Promise<SessionData | null> {
   const cookieStore = await cookies();
-  return cookieStore.get(NONCE_COOKIE_NAME)?.value || null;
+  const sessionId = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+
+  if (!sessionId) {
+    return null;
+  }
+
+  let session = await loadSession(sessionId);
+  if (!session) {
+    // Session expired, ended or unknown
+    return null;
+  }
+
+  const now = Date.now();
+  const revoked = isSessionRevoked(session);
+  if (revoked || getSessionExpiresAt(session) <= now) {
+    logger.info(revoked ? 'Session ended by back-channel logout' : 'Session timed out');
+    await getSessionStore().delete(getSessionStoreKey(sessionId));
+    try {
+      cookieStore.delete(SESSION_COOKIE_NAME);
+    } catch {
+      // Read-only cookies (Server Component): the session is still rejected on every request
+    }
+    return null;
+  }
+
+  // Sliding expiration: record the activity and push the idle deadline back
+  const active = now - (session.lastSeenAt || session.createdAt || 0) >= ACTIVITY_UPDATE_INTERVAL_MS;
+  if (active) {
+    session = { ...session, lastSeenAt: now };
+  }
+
+  let current: SessionData = session;
+  if (session.expiresAt - now <= getRefreshThresholdMs()) {
+    const renewed = await renewSession(sessionId, session);
+    if (renewed) {
+      current = renewed;
+    } else if (session.expiresAt <= now) {
+      return null;
+    }
+    // Otherwise the access token is still usable until it actually expires
+  }
+
+  if (active && current === session) {
+    // (A renewed session was already stored with the new lastSeenAt)
+    await storeSessionData(getSessionStoreKey(sessionId), session);
+  }
+  if (active || current !== session) {
+    try {
+      await writeSessionCookie(sessionId, getSessionTtlSeconds(current));
+    } catch {
+      // Read-only cookies (Server Component): the stored session still records the activity
+      logger.debug('Session cookie could not be re-issued in this context (read-only cookies)');
+    }
+  }
+
+  return current;
 }
 
 /**
- * Delete nonce after validation
+ * Get the plaintext refresh token of a session (e.g. to revoke it on logout)
  */
-export async function deleteNonce(): Promise<void> {
+export async function getSessionRefreshToken(session: SessionData): Promise<string | null> {
+  if (!session.refreshToken) {
+    return null;
+  }
+  try {
+    return await unsealRefreshToken(session.refreshToken);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Delete session (logout)
+ */
+export async function deleteSession(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete(NONCE_COOKIE_NAME);
+  const sessionId = cookieStore.get(SESSION_COOKIE_NAME)?.value;
+  if (sessionId) {
+    await getSessionStore().delete(getSessionStoreKey(sessionId));
+  }
+  cookieStore.delete(SESSION_COOKIE_NAME);
 }
 
 /**
- * Store PKCE code verifier
+ * Store state for the RP-initiated logout round trip
  */
-export async function setCodeVerifier(codeVerifier: string): Promise<void> {
+export async function setLogoutState(state: string): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.set(PKCE_COOKIE_NAME, codeVerifier, {
+  cookieStore.set(LOGOUT_STATE_COOKIE_NAME, state, {
     httpOnly: true,
     secure: process.env.NODE_ENV === 'production',
     sameSite: 'lax',
@@ -166,22 +525,17 @@ export async function setCodeVerifier(codeVerifier: string): Promise<void> {
 }
 
 /**
- * Get PKCE code verifier
+ * Get the stored logout state
  */
-export async function getCodeVerifier(): Promise<string | null> {
+export async function getLogoutState(): Promise<string | null> {
   const cookieStore = await cookies();
-  return cookieStore.get(PKCE_COOKIE_NAME)?.value || null;
+  return cookieStore.get(LOGOUT_STATE_COOKIE_NAME)?.value || null;
 }
 
 /**
- * Delete PKCE code verifier after token exchange
+ * Delete logout state after the post-logout redirect
  */
-export async function deleteCodeVerifier(): Promise<void> {
+export async function deleteLogoutState(): Promise<void> {
   const cookieStore = await cookies();
-  cookieStore.delete(PKCE_COOKIE_NAME);
+  cookieStore.delete(LOGOUT_STATE_COOKIE_NAME);
 }
-
-
-
-
-
@@ -0,0 +1,426 @@
+/**
+ * Server-Side Session Store
+ *
+ * Session data (tokens and profile) lives on the server; the session cookie
+ * only carries an opaque, random session ID. The store keeps opaque strings:
+ * session.ts encrypts every session before it is stored (src/lib/keyManager.ts),
+ * so files and Redis keys never hold readable tokens. Backends, chosen with
+ * SESSION_STORE:
+ * - memory (default): this process only, lost on restart
+ * - file: one JSON file per session in SESSION_STORE_DIR (default .sessions)
+ * - redis: any Redis-protocol server at SESSION_STORE_REDIS_URL, shared by
+ *   every app instance
+ *
+ * Sessions can be stored with an index (UAE PASS subject and session ID, as
+ * hashes) so a back-channel logout can find and delete them on every instance.
+ *
+ * Expired sessions are swept in the background every
+ * SESSION_STORE_SWEEP_INTERVAL_SECONDS (default 300); Redis expires its keys
+ * itself. A different implementation can be plugged in with setSessionStore().
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { RedisClient } from './redisClient';
+import { createLogger } from './logger';
+
+const logger = createLogger('SESSION STORE');
+
+const DEFAULT_SWEEP_INTERVAL_SECONDS = 300; // 5 minutes
+const DEFAULT_FILE_STORE_DIR = '.sessions';
+const DEFAULT_REDIS_KEY_PREFIX = 'uaepass:session:';
+
+export type SessionStoreBackend = 'memory' | 'file' | 'redis';
+
+const SESSION_STORE_BACKENDS: SessionStoreBackend[] = ['memory', 'file', 'redis'];
+
+// Session IDs are generated by session.ts; anything else is rejected before it reaches a backend
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{16,128}$/;
+
+// What a session can be looked up by; values are opaque (session.ts stores hashes)
+export interface SessionIndex {
+  sub?: string;
+  sid?: string;
+}
+
+// Anything that can keep (encrypted) session data for a limited time
+export interface SessionStore {
+  get(id: string): Promise<string | null>;
+  set(id: string, value: string, ttlSeconds: number, index?: SessionIndex): Promise<void>;
+  delete(id: string): Promise<void>;
+  // IDs of unexpired sessions whose index matches every field of the query
+  find(query: SessionIndex): Promise<string[]>;
+  // Remove expired sessions; returns how many were removed
+  sweep(): Promise<number>;
+}
+
+// Store configuration
+export interface SessionStoreConfig {
+  backend: SessionStoreBackend;
+  directory: string; // file backend
+  redisUrl?: string; // redis backend
+  redisKeyPrefix: string;
+  sweepIntervalMs: number; // 0 disables the background sweep
+}
+
+interface StoredSession {
+  expiresAt: number; // ms since epoch
+  value: string;
+  index?: SessionIndex;
+}
+
+function isValidSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+function matchesIndex(index: SessionIndex | undefined, query: SessionIndex): boolean {
+  if (!query.sub && !query.sid) return false;
+  if (query.sub && index?.sub !== query.sub) return false;
+  if (query.sid && index?.sid !== query.sid) return false;
+  return true;
+}
+
+function parseStoredSession(json: string): StoredSession | null {
+  try {
+    const stored = JSON.parse(json) as StoredSession;
+    return typeof stored?.expiresAt === 'number' && typeof stored.value === 'string' ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sessions in this process's memory
+ */
+class MemorySessionStore implements SessionStore {
+  constructor(private readonly sessions: Map<string, StoredSession>) {}
+
+  async get(id: string): Promise<string | null> {
+    const stored = this.sessions.get(id);
+    if (!stored || stored.expiresAt <= Date.now()) {
+      this.sessions.delete(id);
+      return null;
+    }
+    return stored.value;
+  }
+
+  async set(id: string, value: string, ttlSeconds: number, index?: SessionIndex): Promise<void> {
+    this.sessions.set(id, { expiresAt: Date.now() + ttlSeconds * 1000, value, index });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.sessions.delete(id);
+  }
+
+  async find(query: SessionIndex): Promise<string[]> {
+    const now = Date.now();
+    return [...this.sessions]
+      .filter(([, stored]) => stored.expiresAt > now && matchesIndex(stored.index, query))
+      .map(([id]) => id);
+  }
+
+  async sweep(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+    for (const [id, stored] of this.sessions) {
+      if (stored.expiresAt <= now) {
+        this.sessions.delete(id);
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * One JSON file per session, readable by the app's user only
+ */
+class FileSessionStore implements SessionStore {
+  constructor(private readonly directory: string) {}
+
+  private filePath(id: string): string {
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  async get(id: string): Promise<string | null> {
+    let json: string;
+    try {
+      json = await fs.readFile(this.filePath(id), 'utf8');
+    } catch {
+      return null;
+    }
+    const stored = parseStoredSession(json);
+    if (!stored || stored.expiresAt <= Date.now()) {
+      await this.delete(id);
+      return null;
+    }
+    return stored.value;
+  }
+
+  async set(id: string, value: string, ttlSeconds: number, index?: SessionIndex): Promise<void> {
+    const stored: StoredSession = { expiresAt: Date.now() + ttlSeconds * 1000, value, index };
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    // Written to a temporary file and renamed, so a reader never sees half a session
+    const tempPath = `${this.filePath(id)}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(stored), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath(id));
+  }
+
+  async delete(id: string): Promise<void> {
+    await fs.rm(this.filePath(id), { force: true });
+  }
+
+  // Reads every session file, like sweep(); fine for the single-server setups this backend is for
+  async find(query: SessionIndex): Promise<string[]> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const now = Date.now();
+    const found: string[] = [];
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      try {
+        const stored = parseStoredSession(await fs.readFile(path.join(this.directory, entry), 'utf8'));
+        if (stored && stored.expiresAt > now && matchesIndex(stored.index, query)) {
+          found.push(entry.slice(0, -'.json'.length));
+        }
+      } catch {
+        // Removed concurrently
+      }
+    }
+    return found;
+  }
+
+  async sweep(): Promise<number> {
+    let entries: string[];
+    try {
+      entries = await fs.readdir(this.directory);
+    } catch {
+      return 0; // Nothing stored yet
+    }
+
+    const now = Date.now();
+    let removed = 0;
+    for (const entry of entries) {
+      if (!entry.endsWith('.json')) continue;
+      const filePath = path.join(this.directory, entry);
+      try {
+        const stored = parseStoredSession(await fs.readFile(filePath, 'utf8'));
+        if (!stored || stored.expiresAt <= now) {
+          await fs.rm(filePath, { force: true });
+          removed++;
+        }
+      } catch {
+        // Removed concurrently
+      }
+    }
+    return removed;
+  }
+}
+
+/**
+ * Sessions as Redis keys with an expiry (SET ... EX)
+ *
+ * The index is a set of session IDs per sub and per sid, kept until the
+ * longest-lived of its sessions expires; IDs of sessions that are gone are
+ * removed when the set is read.
+ */
+class RedisSessionStore implements SessionStore {
+  constructor(private readonly client: RedisClient, private readonly keyPrefix: string) {}
+
+  private indexKey(field: keyof SessionIndex, value: string): string {
+    return `${this.keyPrefix}index:${field}:${value}`;
+  }
+
+  private indexKeys(index: SessionIndex): string[] {
+    const keys: string[] = [];
+    if (index.sub) keys.push(this.indexKey('sub', index.sub));
+    if (index.sid) keys.push(this.indexKey('sid', index.sid));
+    return keys;
+  }
+
+  async get(id: string): Promise<string | null> {
+    const value = await this.client.command(['GET', this.keyPrefix + id]);
+    return typeof value === 'string' ? value : null;
+  }
+
+  async set(id: string, value: string, ttlSeconds: number, index?: SessionIndex): Promise<void> {
+    const ttl = Math.max(1, Math.ceil(ttlSeconds));
+    await this.client.command(['SET', this.keyPrefix + id, value, 'EX', String(ttl)]);
+    for (const key of index ? this.indexKeys(index) : []) {
+      await this.client.command(['SADD', key, id]);
+      // Only ever extended, so the set outlives every session in it (-1: no expiry yet)
+      const remaining = await this.client.command(['TTL', key]);
+      if (typeof remaining !== 'number' || remaining < ttl) {
+        await this.client.command(['EXPIRE', key, String(ttl)]);
+      }
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.client.command(['DEL', this.keyPrefix + id]);
+  }
+
+  async find(query: SessionIndex): Promise<string[]> {
+    const keys = this.indexKeys(query);
+    if (keys.length === 0) {
+      return [];
+    }
+    const members = await this.client.command(keys.length === 1 ? ['SMEMBERS', keys[0]] : ['SINTER', ...keys]);
+    const found: string[] = [];
+    for (const id of Array.isArray(members) ? members : []) {
+      if (typeof id !== 'string') continue;
+      if (await this.client.command(['EXISTS', this.keyPrefix + id])) {
+        found.push(id);
+      } else {
+        for (const key of keys) {
+          await this.client.command(['SREM', key, id]);
+        }
+      }
+    }
+    return found;
+  }
+
+  async sweep(): Promise<number> {
+    return 0; // Redis removes expired keys itself
+  }
+}
+
+/**
+ * Reject malformed session IDs before they become file names or keys
+ */
+class ValidatingSessionStore implements SessionStore {
+  constructor(private readonly store: SessionStore) {}
+
+  async get(id: string): Promise<string | null> {
+    return isValidSessionId(id) ? this.store.get(id) : null;
+  }
+
+  async set(id: string, value: string, ttlSeconds: number, index?: SessionIndex): Promise<void> {
+    if (!isValidSessionId(id)) {
+      throw new Error('Invalid session ID');
+    }
+    await this.store.set(id, value, ttlSeconds, index);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (isValidSessionId(id)) {
+      await this.store.delete(id);
+    }
+  }
+
+  async find(query: SessionIndex): Promise<string[]> {
+    return (await this.store.find(query)).filter(isValidSessionId);
+  }
+
+  sweep(): Promise<number> {
+    return this.store.sweep();
+  }
+}
+
+/**
+ * Build the store configuration from environment variables
+ *
+ * - SESSION_STORE: memory (default), file or redis
+ * - SESSION_STORE_DIR: directory of the file backend (default .sessions)
+ * - SESSION_STORE_REDIS_URL (falls back to REDIS_URL), SESSION_STORE_REDIS_PREFIX
+ * - SESSION_STORE_SWEEP_INTERVAL_SECONDS: 0 disables the background sweep
+ */
+export function getSessionStoreConfig(): SessionStoreConfig {
+  const backend = (process.env.SESSION_STORE || 'memory').trim().toLowerCase() as SessionStoreBackend;
+  if (!SESSION_STORE_BACKENDS.includes(backend)) {
+    throw new Error(`Invalid SESSION_STORE: ${backend}. Use one of: ${SESSION_STORE_BACKENDS.join(', ')}`);
+  }
+
+  const redisUrl = process.env.SESSION_STORE_REDIS_URL || process.env.REDIS_URL || undefined;
+  if (backend === 'redis' && !redisUrl) {
+    throw new Error('SESSION_STORE=redis requires SESSION_STORE_REDIS_URL (or REDIS_URL)');
+  }
+
+  const sweepSeconds = parseInt(process.env.SESSION_STORE_SWEEP_INTERVAL_SECONDS || '', 10);
+  return {
+    backend,
+    directory: path.resolve(process.env.SESSION_STORE_DIR || DEFAULT_FILE_STORE_DIR),
+    redisUrl,
+    redisKeyPrefix: process.env.SESSION_STORE_REDIS_PREFIX || DEFAULT_REDIS_KEY_PREFIX,
+    sweepIntervalMs: (Number.isFinite(sweepSeconds) && sweepSeconds >= 0 ? sweepSeconds : DEFAULT_SWEEP_INTERVAL_SECONDS) * 1000,
+  };
+}
+
+// Kept on globalThis so sessions and the sweep timer survive dev-server module reloads
+interface SessionStoreState {
+  memorySessions: Map<string, StoredSession>;
+  store: SessionStore | null;
+  sweepTimer: ReturnType<typeof setInterval> | null;
+}
+
+const globalForSessionStore = globalThis as typeof globalThis & { sessionStoreState?: SessionStoreState };
+const storeState: SessionStoreState = globalForSessionStore.sessionStoreState ??= {
+  memorySessions: new Map(),
+  store: null,
+  sweepTimer: null,
+};
+
+/**
+ * Create a store with one of the built-in backends
+ */
+export function createSessionStore(config: SessionStoreConfig): SessionStore {
+  switch (config.backend) {
+    case 'file':
+      return new ValidatingSessionStore(new FileSessionStore(config.directory));
+    case 'redis':
+      return new ValidatingSessionStore(new RedisSessionStore(new RedisClient(config.redisUrl!), config.redisKeyPrefix));
+    default:
+      return new ValidatingSessionStore(new MemorySessionStore(storeState.memorySessions));
+  }
+}
+
+/**
+ * Sweep expired sessions every intervalMs, replacing any earlier sweep
+ * The timer does not keep the process alive
+ */
+function startSweep(intervalMs: number): void {
+  if (storeState.sweepTimer) {
+    clearInterval(storeState.sweepTimer);
+    storeState.sweepTimer = null;
+  }
+  if (intervalMs <= 0) {
+    return;
+  }
+
+  storeState.sweepTimer = setInterval(() => {
+    storeState.store?.sweep()
+      .then(removed => {
+        if (removed > 0) logger.debug('Expired sessions swept:', removed);
+      })
+      .catch(error => logger.warn('Session sweep failed:', error instanceof Error ? error.message : error));
+  }, intervalMs);
+  storeState.sweepTimer.unref?.();
+}
+
+/**
+ * Get the session store (created from env on first use, with its background sweep)
+ */
+export function getSessionStore(): SessionStore {
+  if (!storeState.store) {
+    const config = getSessionStoreConfig();
+    storeState.store = createSessionStore(config);
+    startSweep(config.sweepIntervalMs);
+    logger.info('Using session store:', config.backend);
+  }
+  return storeState.store;
+}
+
+/**
+ * Plug in a different store, or pass null to go back to the configured one
+ */
+export function setSessionStore(store: SessionStore | null): void {
+  storeState.store = store ? new ValidatingSessionStore(store) : null;
+  if (store) {
+    startSweep(getSessionStoreConfig().sweepIntervalMs);
+  }
+}
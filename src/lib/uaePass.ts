@@ -6,23 +6,58 @@
  */
 
 import crypto from 'crypto';
-import dns from 'dns';
-import https from 'https';
-import { jwtVerify, createRemoteJWKSet, JWTPayload } from 'jose';
+import { jwtVerify, JWTPayload } from 'jose';
 import { uaePassLogger as logger } from './logger';
-
-// UAE PASS Configuration Interface
-export interface UAEPassConfig {
-  clientId: string;
-  clientSecret: string;
-  redirectUri: string;
+import {
+  OIDCProviderMetadata,
+  IssuerMismatchError,
+  buildDiscoveryUrl,
+  getProviderMetadata,
+} from './oidcDiscovery';
+import { getJWKS } from './jwks';
+import { HttpRequestError, HttpTimeoutError, getHttpTransport } from './httpTransport';
+import { LocalizedProfile, toLocalizedValue } from './profileLocale';
+import { validateEmiratesId } from './emiratesId';
+import { AppError, toAppError } from './errors';
+import {
+  ClientAuthMethod,
+  createRequestObject,
+  getClientAuthMethod,
+  getClientAuthentication,
+  hasClientKey,
+} from './clientAuth';
+
+// UAE PASS environments with built-in endpoint presets
+export type UAEPassEnvironment = 'staging' | 'production' | 'local-mock';
+
+// Endpoint settings that can come from a preset, discovery, or explicit env vars
+export interface UAEPassEndpoints {
   authorizationEndpoint: string;
   tokenEndpoint: string;
   userInfoEndpoint: string;
   logoutEndpoint: string;
   jwksUri: string;
   issuer: string;
+  revocationEndpoint?: string; // Only when the provider supports RFC 7009
+  pushedAuthorizationRequestEndpoint?: string; // Only when the provider supports RFC 9126 (PAR)
+}
+
+// How the authorization request parameters reach UAE PASS
+// - query: in the front-channel URL (readable and changeable by the browser)
+// - par: pushed to UAE PASS server-to-server; the URL only carries a request_uri
+// - request_object: signed into a JWT `request` parameter, so they cannot be altered
+export type AuthorizationRequestMode = 'query' | 'par' | 'request_object';
+
+// UAE PASS Configuration Interface
+export interface UAEPassConfig extends UAEPassEndpoints {
+  environment: UAEPassEnvironment;
+  clientId: string;
+  clientSecret: string; // Empty when authenticating with private_key_jwt
+  clientAuthMethod: ClientAuthMethod;
+  redirectUri: string;
   scope: string;
+  discoveryUrl: string;
+  providerMetadata?: OIDCProviderMetadata; // Present when discovery succeeded
 }
 
 // Token Response from UAE PASS
@@ -55,6 +90,9 @@ export interface UAEPassUserProfile {
 // Valid SOP levels from UAE PASS
 export type SOPLevel = 'SOP1' | 'SOP2' | 'SOP3' | 'UNKNOWN';
 
+// SOP levels that can be requested as a required assurance level
+export type AssuranceLevel = Exclude<SOPLevel, 'UNKNOWN'>;
+
 // ACR (Authentication Context Class Reference) values for SOP levels
 export const ACR_VALUES = {
   SOP1: 'urn:safelayer:tws:policies:authentication:level:low',
@@ -62,7 +100,29 @@ export const ACR_VALUES = {
   SOP3: 'urn:safelayer:tws:policies:authentication:level:high',
 } as const;
 
+// ACR value that selects the UAE PASS mobile on-device (app-to-app) flow
+export const ACR_MOBILE_ON_DEVICE = 'urn:digitalid:authentication:flow:mobileondevice';
+
+// Levels the mobile on-device flow can grant (at most SOP2); stronger logins use the web flow
+const MOBILE_ON_DEVICE_LEVELS: AssuranceLevel[] = ['SOP1', 'SOP2'];
+
+// How the user authenticates with UAE PASS
+// - web: credentials / QR code in the browser
+// - mobile-on-device: the UAE PASS app on the same device, which then returns to the browser
+export type AuthenticationFlow = 'web' | 'mobile-on-device';
+
+// Error codes UAE PASS returns to the callback when the user cancels
+// (in the browser or inside the UAE PASS app)
+export const CANCELLATION_ERROR_CODES = [
+  'access_denied',
+  'user_cancelled',
+  'cancelled',
+  'cancelledOnApp',
+] as const;
+
 // Normalized User Profile for our application
+// fullName, firstName, lastName and nationality hold the English value when
+// present (else Arabic); `localized` keeps both languages
 export interface NormalizedUserProfile {
   fullName: string;
   firstName: string;
@@ -72,6 +132,7 @@ export interface NormalizedUserProfile {
   email: string;
   dateOfBirth?: string;
   nationality?: string;
+  localized: LocalizedProfile; // Names and nationality in English and Arabic
   sub: string; // OIDC subject identifier
   uuid?: string; // UAE PASS user unique ID (UUID format)
   acr?: string; // ACR value from ID token
@@ -86,41 +147,170 @@ export interface PKCEPair {
 }
 
 /**
- * Get UAE PASS configuration from environment variables
- * 
+ * Endpoint presets for each UAE PASS environment
+ *
  * UAE PASS Staging/Sandbox Base URL: https://stg-id.uaepass.ae
  * UAE PASS Production Base URL: https://id.uaepass.ae
- * 
+ * Local mock: in-repo stand-in identity provider (override with UAE_PASS_MOCK_BASE_URL)
+ *
  * Reference: https://docs.uaepass.ae/
  */
-export function getUAEPassConfig(): UAEPassConfig {
+function getEnvironmentPreset(environment: UAEPassEnvironment): UAEPassEndpoints {
+  if (environment === 'local-mock') {
+    const base = (process.env.UAE_PASS_MOCK_BASE_URL || 'http://localhost:3000/api/mock-uae-pass').replace(/\/+$/, '');
+    return {
+      authorizationEndpoint: `${base}/authorize`,
+      tokenEndpoint: `${base}/token`,
+      userInfoEndpoint: `${base}/userinfo`,
+      logoutEndpoint: `${base}/logout`,
+      jwksUri: `${base}/jwks`,
+      issuer: base,
+      revocationEndpoint: `${base}/revoke`,
+      pushedAuthorizationRequestEndpoint: `${base}/par`,
+    };
+  }
+
+  const host = environment === 'production' ? 'https://id.uaepass.ae' : 'https://stg-id.uaepass.ae';
+  return {
+    authorizationEndpoint: `${host}/idshub/authorize`,
+    tokenEndpoint: `${host}/idshub/token`,
+    userInfoEndpoint: `${host}/idshub/userinfo`,
+    logoutEndpoint: `${host}/idshub/logout`,
+    jwksUri: `${host}/idshub/.well-known/jwks`,
+    issuer: host,
+  };
+}
+
+/**
+ * Resolve the UAE PASS environment from UAE_PASS_ENVIRONMENT (defaults to staging)
+ */
+function getUAEPassEnvironment(): UAEPassEnvironment {
+  const value = (process.env.UAE_PASS_ENVIRONMENT || 'staging').trim().toLowerCase();
+  if (value === 'staging' || value === 'production' || value === 'local-mock') {
+    return value;
+  }
+  throw new Error(`Invalid UAE_PASS_ENVIRONMENT "${value}". Expected one of: staging, production, local-mock`);
+}
+
+/**
+ * Endpoint values set explicitly through environment variables
+ * These always take precedence over presets and discovered metadata
+ */
+function getEndpointOverrides(): Partial<UAEPassEndpoints> {
+  const overrides: Partial<UAEPassEndpoints> = {};
+  if (process.env.UAE_PASS_AUTHORIZATION_ENDPOINT) overrides.authorizationEndpoint = process.env.UAE_PASS_AUTHORIZATION_ENDPOINT;
+  if (process.env.UAE_PASS_TOKEN_ENDPOINT) overrides.tokenEndpoint = process.env.UAE_PASS_TOKEN_ENDPOINT;
+  if (process.env.UAE_PASS_USERINFO_ENDPOINT) overrides.userInfoEndpoint = process.env.UAE_PASS_USERINFO_ENDPOINT;
+  if (process.env.UAE_PASS_LOGOUT_ENDPOINT) overrides.logoutEndpoint = process.env.UAE_PASS_LOGOUT_ENDPOINT;
+  if (process.env.UAE_PASS_JWKS_URI) overrides.jwksUri = process.env.UAE_PASS_JWKS_URI;
+  if (process.env.UAE_PASS_ISSUER) overrides.issuer = process.env.UAE_PASS_ISSUER;
+  if (process.env.UAE_PASS_REVOCATION_ENDPOINT) overrides.revocationEndpoint = process.env.UAE_PASS_REVOCATION_ENDPOINT;
+  if (process.env.UAE_PASS_PAR_ENDPOINT) overrides.pushedAuthorizationRequestEndpoint = process.env.UAE_PASS_PAR_ENDPOINT;
+  return overrides;
+}
+
+/**
+ * Map discovered provider metadata onto our endpoint settings
+ */
+function endpointsFromMetadata(metadata: OIDCProviderMetadata): Partial<UAEPassEndpoints> {
+  const endpoints: Partial<UAEPassEndpoints> = {
+    authorizationEndpoint: metadata.authorization_endpoint,
+    tokenEndpoint: metadata.token_endpoint,
+    jwksUri: metadata.jwks_uri,
+    issuer: metadata.issuer,
+  };
+  if (metadata.userinfo_endpoint) endpoints.userInfoEndpoint = metadata.userinfo_endpoint;
+  if (metadata.end_session_endpoint) endpoints.logoutEndpoint = metadata.end_session_endpoint;
+  if (metadata.revocation_endpoint) endpoints.revocationEndpoint = metadata.revocation_endpoint;
+  if (metadata.pushed_authorization_request_endpoint) {
+    endpoints.pushedAuthorizationRequestEndpoint = metadata.pushed_authorization_request_endpoint;
+  }
+  return endpoints;
+}
+
+/**
+ * Get UAE PASS configuration from environment variables and the selected preset,
+ * without contacting the provider
+ *
+ * Precedence: explicit env vars > environment preset
+ */
+export function getStaticUAEPassConfig(): UAEPassConfig {
   const clientId = process.env.UAE_PASS_CLIENT_ID || '';
   const clientSecret = process.env.UAE_PASS_CLIENT_SECRET || '';
+  const clientAuthMethod = getClientAuthMethod();
 
   // Validate required configuration early
   if (!clientId) {
     throw new Error('UAE_PASS_CLIENT_ID environment variable is not set');
   }
-  if (!clientSecret) {
+  if (!clientSecret && clientAuthMethod !== 'private_key_jwt') {
     throw new Error('UAE_PASS_CLIENT_SECRET environment variable is not set');
   }
+  if (clientAuthMethod === 'private_key_jwt' && !process.env.UAE_PASS_CLIENT_KEY_FILE) {
+    throw new Error('UAE_PASS_CLIENT_KEY_FILE environment variable is not set (required for private_key_jwt)');
+  }
+
+  const environment = getUAEPassEnvironment();
+  const endpoints: UAEPassEndpoints = {
+    ...getEnvironmentPreset(environment),
+    ...getEndpointOverrides(),
+  };
 
-  const config: UAEPassConfig = {
+  return {
+    environment,
     clientId,
     clientSecret,
+    clientAuthMethod,
     redirectUri: process.env.UAE_PASS_REDIRECT_URI || 'http://localhost:3000/uae-pass/callback',
-    // UAE PASS Staging endpoints (default)
-    authorizationEndpoint: process.env.UAE_PASS_AUTHORIZATION_ENDPOINT || 'https://id.uaepass.ae/idshub/authorize',
-    tokenEndpoint: process.env.UAE_PASS_TOKEN_ENDPOINT || 'https://id.uaepass.ae/idshub/token',
-    userInfoEndpoint: process.env.UAE_PASS_USERINFO_ENDPOINT || 'https://id.uaepass.ae/idshub/userinfo',
-    logoutEndpoint: process.env.UAE_PASS_LOGOUT_ENDPOINT || 'https://id.uaepass.ae/idshub/logout',
-    jwksUri: process.env.UAE_PASS_JWKS_URI || 'https://id.uaepass.ae/idshub/.well-known/jwks',
-    issuer: process.env.UAE_PASS_ISSUER || 'https://id.uaepass.ae',
+    ...endpoints,
     // UAE PASS required scope
     scope: process.env.UAE_PASS_SCOPE || 'urn:uae:digitalid:profile:general',
+    discoveryUrl: process.env.UAE_PASS_DISCOVERY_URL || buildDiscoveryUrl(endpoints.issuer),
   };
+}
 
-  return config;
+/**
+ * Get UAE PASS configuration, enriched with the provider's discovery document
+ *
+ * Precedence: explicit env vars > discovered metadata > environment preset
+ *
+ * Discovery can be disabled with UAE_PASS_DISCOVERY=false. If the discovery
+ * document cannot be fetched, the preset endpoints are used. If it is fetched
+ * but its issuer does not match the configured issuer, an error is thrown.
+ */
+export async function getUAEPassConfig(): Promise<UAEPassConfig> {
+  const staticConfig = getStaticUAEPassConfig();
+
+  if (process.env.UAE_PASS_DISCOVERY === 'false') {
+    return staticConfig;
+  }
+
+  let metadata: OIDCProviderMetadata;
+  try {
+    metadata = await getProviderMetadata(staticConfig.discoveryUrl, staticConfig.issuer);
+  } catch (error) {
+    if (error instanceof IssuerMismatchError) {
+      logger.error('Discovery issuer mismatch - refusing to use provider metadata:', error.message);
+      throw error;
+    }
+    logger.warn('OIDC discovery unavailable, using preset endpoints:', error instanceof Error ? error.message : error);
+    return staticConfig;
+  }
+
+  const supportedAuthMethods = metadata.token_endpoint_auth_methods_supported;
+  if (supportedAuthMethods && !supportedAuthMethods.includes(staticConfig.clientAuthMethod)) {
+    logger.warn('Provider does not advertise the configured client authentication method:', {
+      configured: staticConfig.clientAuthMethod,
+      supported: supportedAuthMethods,
+    });
+  }
+
+  return {
+    ...staticConfig,
+    ...endpointsFromMetadata(metadata),
+    ...getEndpointOverrides(),
+    providerMetadata: metadata,
+  };
 }
 
 /**
@@ -166,19 +356,121 @@ export function generateNonce(): string {
   return crypto.randomBytes(16).toString('base64url');
 }
 
+/**
+ * Choose how to send the authorization request
+ *
+ * UAE_PASS_AUTHORIZATION_REQUEST_MODE selects it explicitly (query, par,
+ * request_object). With auto (default) the provider decides: PAR when it has
+ * a PAR endpoint (discovered or UAE_PASS_PAR_ENDPOINT), otherwise a signed
+ * request object when it accepts the `request` parameter and a client key is
+ * configured, otherwise plain query parameters.
+ */
+export function getAuthorizationRequestMode(config: UAEPassConfig): AuthorizationRequestMode {
+  const setting = process.env.UAE_PASS_AUTHORIZATION_REQUEST_MODE || 'auto';
+
+  if (setting === 'query' || setting === 'request_object') {
+    return setting;
+  }
+  if (setting === 'par') {
+    if (!config.pushedAuthorizationRequestEndpoint) {
+      throw new Error('UAE_PASS_AUTHORIZATION_REQUEST_MODE=par but the provider has no PAR endpoint (set UAE_PASS_PAR_ENDPOINT)');
+    }
+    return 'par';
+  }
+  if (setting !== 'auto') {
+    throw new Error(
+      `Invalid UAE_PASS_AUTHORIZATION_REQUEST_MODE "${setting}". Expected one of: auto, query, par, request_object`
+    );
+  }
+
+  if (config.pushedAuthorizationRequestEndpoint) {
+    return 'par';
+  }
+  if (config.providerMetadata?.request_parameter_supported && hasClientKey()) {
+    return 'request_object';
+  }
+  if (config.providerMetadata?.require_pushed_authorization_requests) {
+    logger.warn('Provider requires PAR but advertises no PAR endpoint; sending a plain authorization request');
+  }
+  return 'query';
+}
+
+/**
+ * Push the authorization request parameters to the PAR endpoint
+ * Reference: RFC 9126 - OAuth 2.0 Pushed Authorization Requests
+ *
+ * @returns request_uri to send to the authorization endpoint in their place
+ */
+async function pushAuthorizationRequest(
+  config: UAEPassConfig,
+  requestParams: Record<string, string>
+): Promise<string> {
+  const endpoint = config.pushedAuthorizationRequestEndpoint!;
+  // The PAR assertion is addressed to the issuer (RFC 9126 Section 2)
+  const clientAuth = await getClientAuthentication(config, config.issuer);
+
+  // A retried push only creates another unused request_uri, unless its client assertion was already used
+  const response = await getHttpTransport('UAE_PASS').request(endpoint, {
+    method: 'POST',
+    idempotent: clientAuth.replayable,
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+      ...clientAuth.headers,
+    },
+    body: new URLSearchParams({ ...requestParams, ...clientAuth.params }).toString(),
+  });
+
+  const responseText = await response.text();
+  let body: { request_uri?: string; expires_in?: number; error?: string; error_description?: string } = {};
+  try {
+    body = JSON.parse(responseText);
+  } catch {
+    body = { error: responseText };
+  }
+
+  if (!response.ok || !body.request_uri) {
+    logger.error('Pushed authorization request failed:', {
+      status: response.status,
+      error: body.error,
+      error_description: body.error_description,
+    });
+    const message = `Pushed authorization request failed with status ${response.status}: ` +
+      (body.error_description || body.error || 'missing request_uri');
+    throw body.error === 'invalid_client' ? new AppError('INVALID_CLIENT', message) : new Error(message);
+  }
+
+  logger.debug('Pushed authorization request accepted:', { expires_in: body.expires_in });
+  return body.request_uri;
+}
+
 /**
  * Build the UAE PASS authorization URL
  * Reference: UAE PASS OAuth 2.0 Authorization Endpoint
+ *
+ * @param params.acrLevel - Required assurance level (defaults to SOP1 / level:low)
+ * @param params.flow - 'mobile-on-device' sends the mobile acr_values so UAE PASS hands off
+ *   to the app; the returned acr is still checked against acrLevel in the callback.
+ *   Ignored for levels the mobile flow cannot grant (see selectAuthenticationFlow).
+ * @param params.prompt - Optional OIDC prompt value, e.g. 'login' to force re-authentication on step-up
+ * @param params.mode - How the parameters are sent (defaults to getAuthorizationRequestMode)
  */
-export function buildAuthorizationUrl(params: {
+export async function buildAuthorizationUrl(params: {
   state: string;
   nonce: string;
   codeChallenge: string;
   codeChallengeMethod: string;
-}): string {
-  const config = getUAEPassConfig();
-
-  const urlParams = new URLSearchParams({
+  acrLevel?: AssuranceLevel;
+  flow?: AuthenticationFlow;
+  prompt?: string;
+  mode?: AuthorizationRequestMode;
+}): Promise<string> {
+  const config = await getUAEPassConfig();
+  const mode = params.mode || getAuthorizationRequestMode(config);
+  const acrLevel = params.acrLevel || 'SOP1';
+  const mobileOnDevice = params.flow === 'mobile-on-device' && MOBILE_ON_DEVICE_LEVELS.includes(acrLevel);
+
+  const requestParams: Record<string, string> = {
     response_type: 'code',
     client_id: config.clientId,
     redirect_uri: config.redirectUri,
@@ -187,329 +479,488 @@ export function buildAuthorizationUrl(params: {
     nonce: params.nonce,
     code_challenge: params.codeChallenge,
     code_challenge_method: params.codeChallengeMethod,
-    acr_values: 'urn:safelayer:tws:policies:authentication:level:low', // Authentication context class
-  });
+    // Authentication context class
+    acr_values: mobileOnDevice ? ACR_MOBILE_ON_DEVICE : ACR_VALUES[acrLevel],
+  };
+
+  if (params.prompt) {
+    requestParams.prompt = params.prompt;
+  }
+
+  // Ask UAE PASS to re-authenticate users whose login is older than max_age
+  const { maxAgeSeconds } = getIdTokenValidationSettings();
+  if (maxAgeSeconds !== undefined) {
+    requestParams.max_age = String(maxAgeSeconds);
+  }
+
+  if (mode === 'par') {
+    const requestUri = await pushAuthorizationRequest(config, requestParams);
+    const urlParams = new URLSearchParams({ client_id: config.clientId, request_uri: requestUri });
+    return `${config.authorizationEndpoint}?${urlParams.toString()}`;
+  }
+
+  if (mode === 'request_object') {
+    const requestObject = await createRequestObject(config.clientId, config.issuer, {
+      ...requestParams,
+      // A number inside the JWT, as OIDC defines it
+      ...(maxAgeSeconds !== undefined ? { max_age: maxAgeSeconds } : {}),
+    });
+    // response_type, client_id and scope are repeated outside the JWT, as OIDC requires
+    const urlParams = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.clientId,
+      scope: config.scope,
+      request: requestObject,
+    });
+    return `${config.authorizationEndpoint}?${urlParams.toString()}`;
+  }
 
-  return `${config.authorizationEndpoint}?${urlParams.toString()}`;
+  return `${config.authorizationEndpoint}?${new URLSearchParams(requestParams).toString()}`;
 }
 
 /**
- * Build UAE PASS logout URL
- * This URL will clear the UAE PASS session and redirect back to the specified URL
- * Reference: UAE PASS Logout - OIDC RP-Initiated Logout
- * 
- * @param redirectUri - The URL to redirect to after logout (defaults to app base URL)
+ * Detect a mobile browser from its User-Agent header
  */
-export function buildLogoutUrl(redirectUri?: string): string {
-  const config = getUAEPassConfig();
-  
-  // Use provided redirect URI or default to the base app URL
-  const postLogoutRedirect = redirectUri || process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
-  
-  const urlParams = new URLSearchParams({
-    redirect_uri: postLogoutRedirect,
-  });
+export function isMobileUserAgent(userAgent: string | null | undefined): boolean {
+  if (!userAgent) return false;
+  return /Android|iPhone|iPad|iPod|Mobile/i.test(userAgent);
+}
 
-  return `${config.logoutEndpoint}?${urlParams.toString()}`;
+/**
+ * Choose the authentication flow for a login request
+ *
+ * UAE_PASS_MOBILE_FLOW controls the default:
+ * - auto (default): mobile browsers use the on-device app flow, others use web
+ * - always / never: force one flow
+ *
+ * Logins that need a level above SOP2 (e.g. a SOP3 step-up) always use the web
+ * flow: the mobile flow could never meet that level.
+ *
+ * @param userAgent - User-Agent header of the login request
+ * @param requested - Explicit choice from the caller (?flow=web or ?flow=mobile), wins over detection
+ * @param acrLevel - Assurance level the login requires
+ */
+export function selectAuthenticationFlow(
+  userAgent: string | null | undefined,
+  requested?: string | null,
+  acrLevel: AssuranceLevel = 'SOP1'
+): AuthenticationFlow {
+  if (requested === 'web') return 'web';
+
+  let flow: AuthenticationFlow;
+  if (requested === 'mobile' || requested === 'mobile-on-device') {
+    flow = 'mobile-on-device';
+  } else {
+    const setting = process.env.UAE_PASS_MOBILE_FLOW || 'auto';
+    flow = setting === 'always' || (setting !== 'never' && isMobileUserAgent(userAgent)) ? 'mobile-on-device' : 'web';
+  }
+
+  if (flow === 'mobile-on-device' && !MOBILE_ON_DEVICE_LEVELS.includes(acrLevel)) {
+    logger.info(`Using the web flow: the mobile flow cannot grant ${acrLevel}`);
+    return 'web';
+  }
+  return flow;
 }
 
 /**
- * Exchange authorization code for tokens
- * Reference: UAE PASS Token Endpoint - OAuth 2.0 Token Request
- * 
- * UAE PASS token endpoint expects:
- * - POST request with application/x-www-form-urlencoded body
- * - Client credentials in the body (client_id, client_secret)
- * - Grant type, code, and redirect_uri
+ * Check whether a callback error means the user cancelled the login
+ * (including cancelling inside the UAE PASS app)
  */
+export function isCancellationError(error?: string, errorDescription?: string): boolean {
+  if (!error) return false;
+  if ((CANCELLATION_ERROR_CODES as readonly string[]).includes(error)) return true;
+  return Boolean(errorDescription && /cancel/i.test(errorDescription));
+}
+
 /**
- * Fetch using HTTPS module first (more reliable for DNS issues)
- * Falls back to fetch API only if HTTPS module fails
+ * Build UAE PASS logout URL
+ * This URL will clear the UAE PASS session and redirect back to the specified URL
+ * Reference: OpenID Connect RP-Initiated Logout 1.0 - Section 2
+ *
+ * @param options.idTokenHint - ID token from the session, identifies the session to end
+ * @param options.postLogoutRedirectUri - Where UAE PASS sends the user afterwards
+ *   (defaults to UAE_PASS_POST_LOGOUT_REDIRECT_URI, then the app base URL)
+ * @param options.state - Opaque value echoed back to the post-logout redirect
  */
-async function fetchWithRetry(
-  url: string,
-  options: RequestInit,
-  maxRetries: number = 3
-): Promise<Response> {
-  const urlObj = new URL(url);
-  const hostname = urlObj.hostname;
-  
-  // Resolve DNS first to get IP address
-  let resolvedIP: string | null = null;
-  try {
-    const dnsPromises = dns.promises;
-    const addresses = await dnsPromises.resolve4(hostname);
-    if (addresses && addresses.length > 0) {
-      resolvedIP = addresses[0];
-      logger.debug('DNS resolved:', { hostname, ip: resolvedIP });
-    }
-  } catch (dnsError) {
-    logger.warn('DNS resolution failed, will try fetch API:', dnsError);
-  }
-
-  // Try HTTPS module first (more reliable)
-  if (resolvedIP) {
-    try {
-      logger.debug('Using HTTPS module with resolved IP');
-      return await fetchWithHttpsModule(urlObj, resolvedIP, options);
-    } catch (httpsError) {
-      logger.warn('HTTPS module failed, falling back to fetch API:', httpsError);
-      // Continue to fetch fallback below
-    }
-  }
+export async function buildLogoutUrl(options: {
+  idTokenHint?: string;
+  postLogoutRedirectUri?: string;
+  state?: string;
+} = {}): Promise<string> {
+  const config = await getUAEPassConfig();
+
+  const postLogoutRedirect =
+    options.postLogoutRedirectUri ||
+    process.env.UAE_PASS_POST_LOGOUT_REDIRECT_URI ||
+    process.env.NEXT_PUBLIC_APP_URL ||
+    'http://localhost:3000';
 
-  // Fallback to fetch API with retry logic
-  let lastError: Error | null = null;
-  for (let attempt = 0; attempt < maxRetries; attempt++) {
-    try {
-      if (attempt > 0) {
-        const delay = 200 * attempt; // 200ms, 400ms delays
-        logger.debug(`Fetch retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
+  const urlParams = new URLSearchParams({
+    client_id: config.clientId,
+    post_logout_redirect_uri: postLogoutRedirect,
+    // UAE PASS historically reads redirect_uri on its logout endpoint
+    redirect_uri: postLogoutRedirect,
+  });
 
-      const response = await fetch(url, options);
-      return response;
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      
-      // If not last attempt, continue retrying
-      if (attempt < maxRetries - 1) {
-        continue;
-      }
-    }
+  if (options.idTokenHint) {
+    urlParams.set('id_token_hint', options.idTokenHint);
+  }
+  if (options.state) {
+    urlParams.set('state', options.state);
   }
 
-  throw lastError || new Error('Fetch failed after all retries');
+  return `${config.logoutEndpoint}?${urlParams.toString()}`;
 }
 
 /**
- * Fallback to native https module when fetch fails
+ * Revoke an access or refresh token at the provider
+ * Reference: RFC 7009 - OAuth 2.0 Token Revocation
+ *
+ * Returns false (without throwing) when the provider has no revocation
+ * endpoint or the request fails, so logout can always proceed.
  */
-async function fetchWithHttpsModule(
-  urlObj: URL,
-  ipAddress: string,
-  options: RequestInit
-): Promise<Response> {
-  return new Promise((resolve, reject) => {
-    const body = options.body as string | undefined;
-    
-    const requestOptions = {
-      hostname: ipAddress,
-      port: 443,
-      path: urlObj.pathname + urlObj.search,
-      method: options.method || 'GET',
-      headers: {
-        ...(options.headers as Record<string, string>),
-        'Host': urlObj.hostname, // Important for SNI
-      },
-      timeout: 30000,
-    };
-
-    const req = https.request(requestOptions, (res: any) => {
-      let data = '';
-      res.on('data', (chunk: Buffer) => {
-        data += chunk.toString();
-      });
-      
-      res.on('end', () => {
-        try {
-          // Create Response object (available in Node.js 18+)
-          const response = new Response(data, {
-            status: res.statusCode || 200,
-            statusText: res.statusMessage || 'OK',
-            headers: res.headers as HeadersInit,
-          });
-          resolve(response);
-        } catch (responseError) {
-          reject(new Error(`Failed to create response: ${responseError}`));
-        }
-      });
-    });
+export async function revokeToken(
+  token: string,
+  tokenTypeHint: 'access_token' | 'refresh_token'
+): Promise<boolean> {
+  const config = await getUAEPassConfig();
+
+  if (!config.revocationEndpoint) {
+    logger.debug('No revocation endpoint configured, skipping token revocation');
+    return false;
+  }
 
-    req.on('error', (error: Error) => {
-      reject(error);
+  try {
+    const clientAuth = await getClientAuthentication(config, config.tokenEndpoint);
+    const params = new URLSearchParams({
+      token,
+      token_type_hint: tokenTypeHint,
+      ...clientAuth.params,
     });
 
-    req.on('timeout', () => {
-      req.destroy();
-      reject(new Error('Request timeout'));
+    // Revoking the same token twice is harmless; sending the same client assertion twice is not
+    const response = await getHttpTransport('UAE_PASS').request(config.revocationEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+        ...clientAuth.headers,
+      },
+      body: params.toString(),
+      idempotent: clientAuth.replayable,
     });
 
-    if (body) {
-      req.write(body);
+    // RFC 7009: the provider responds 200 whether or not the token was valid
+    if (!response.ok) {
+      logger.warn('Token revocation failed:', { status: response.status, tokenTypeHint });
+      return false;
     }
-    
-    req.end();
-  });
+
+    logger.info('Token revoked:', tokenTypeHint);
+    return true;
+  } catch (error) {
+    logger.warn('Token revocation error:', error instanceof Error ? error.message : error);
+    return false;
+  }
 }
 
+/**
+ * Exchange authorization code for tokens
+ * Reference: UAE PASS Token Endpoint - OAuth 2.0 Token Request
+ * 
+ * UAE PASS token endpoint expects:
+ * - POST request with application/x-www-form-urlencoded body
+ * - Client authentication as configured (see clientAuth.ts)
+ * - Grant type, code, and redirect_uri
+ */
 export async function exchangeCodeForTokens(
   code: string,
   codeVerifier: string
 ): Promise<TokenResponse> {
-  const config = getUAEPassConfig();
+  const config = await getUAEPassConfig();
 
   // Debug: Log token exchange request (sensitive data masked by logger)
   logger.debug('Token exchange request:', {
     endpoint: config.tokenEndpoint,
     redirect_uri: config.redirectUri,
     client_id: config.clientId,
+    client_auth_method: config.clientAuthMethod,
     code_length: code.length,
     code_verifier_length: codeVerifier.length,
   });
 
-  // Build request body with all credentials
-  // UAE PASS expects credentials in the body, not in Basic Auth header
-  const params = new URLSearchParams({
-    grant_type: 'authorization_code',
-    code: code,
-    redirect_uri: config.redirectUri,
-    client_id: config.clientId,
-    client_secret: config.clientSecret,
-  });
+  try {
+    const clientAuth = await getClientAuthentication(config, config.tokenEndpoint);
+    const params = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: code,
+      redirect_uri: config.redirectUri,
+      ...clientAuth.params,
+    });
 
-  // Only add code_verifier if PKCE was used (check if it's not empty)
-  if (codeVerifier && codeVerifier.length > 0) {
-    params.append('code_verifier', codeVerifier);
-  }
+    // Only add code_verifier if PKCE was used (check if it's not empty)
+    if (codeVerifier && codeVerifier.length > 0) {
+      params.append('code_verifier', codeVerifier);
+    }
 
-  logger.debug('Request body params configured (secrets masked)');
+    logger.debug('Request body params configured (secrets masked)');
 
-  try {
     // Log the endpoint being called for debugging
     logger.debug('Calling token endpoint:', config.tokenEndpoint);
-    
-    // Create AbortController for timeout handling
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-
-    try {
-      // Make the token request with timeout and retry logic
-      const response = await fetchWithRetry(
-        config.tokenEndpoint,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'Accept': 'application/json',
-          },
-          body: params.toString(),
-          signal: controller.signal,
-        },
-        3 // max retries
-      );
 
-      clearTimeout(timeoutId);
-
-      const responseText = await response.text();
-      logger.debug('Token response status:', response.status, response.statusText);
-
-      if (!response.ok) {
-        let errorData: any = {};
-        try {
-          errorData = JSON.parse(responseText);
-        } catch {
-          errorData = { error: responseText };
-        }
-        logger.error('Token exchange error:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorData.error,
-          error_description: errorData.error_description,
-          responseBody: responseText.substring(0, 500), // First 500 chars
-        });
-
-        // If we get invalid_client, suggest checking credentials
-        if (errorData.error === 'invalid_client') {
-          logger.error('INVALID CLIENT: Verify client_id and client_secret match your UAE PASS environment (staging vs production)');
-        }
-
-        throw new Error(
-          errorData.error_description ||
-          errorData.error ||
-          `Token exchange failed with status ${response.status}: ${response.statusText}`
-        );
-      }
+    // Authorization codes are single use, so the transport only retries
+    // attempts that never reached UAE PASS
+    const response = await getHttpTransport('UAE_PASS').request(config.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+        ...clientAuth.headers,
+      },
+      body: params.toString(),
+    });
 
-      const tokens: TokenResponse = JSON.parse(responseText);
-      logger.info('Token exchange successful');
+    const responseText = await response.text();
+    logger.debug('Token response status:', response.status, response.statusText);
 
-      if (!tokens.access_token) {
-        throw new Error('Invalid token response: missing access_token');
+    if (!response.ok) {
+      let errorData: any = {};
+      try {
+        errorData = JSON.parse(responseText);
+      } catch {
+        errorData = { error: responseText };
       }
+      logger.error('Token exchange error:', {
+        status: response.status,
+        statusText: response.statusText,
+        error: errorData.error,
+        error_description: errorData.error_description,
+        responseBody: responseText.substring(0, 500), // First 500 chars
+      });
+
+      const message = errorData.error_description ||
+        errorData.error ||
+        `Token exchange failed with status ${response.status}: ${response.statusText}`;
 
-      return tokens;
-    } catch (fetchError) {
-      clearTimeout(timeoutId);
-      
-      // Handle abort (timeout)
-      if (fetchError instanceof Error && fetchError.name === 'AbortError') {
-        logger.error('Token exchange timeout:', {
-          endpoint: config.tokenEndpoint,
-          timeout: '30s',
-        });
-        throw new Error('Token exchange timed out after 30 seconds. Please check your network connection and try again.');
+      // If we get invalid_client, suggest checking credentials
+      if (errorData.error === 'invalid_client') {
+        logger.error(`INVALID CLIENT: Verify client_id and the ${config.clientAuthMethod} credentials match your UAE PASS environment (staging vs production)`);
+        throw new AppError('INVALID_CLIENT', message);
       }
-      
-      // Re-throw to be handled by outer catch
-      throw fetchError;
+      // Expired, already used, or issued for a different redirect_uri / code_verifier
+      if (errorData.error === 'invalid_grant') {
+        throw new AppError('INVALID_GRANT', message);
+      }
+      throw new AppError('TOKEN_EXCHANGE_FAILED', message);
     }
+
+    const tokens: TokenResponse = JSON.parse(responseText);
+    logger.info('Token exchange successful');
+
+    if (!tokens.access_token) {
+      throw new AppError('TOKEN_EXCHANGE_FAILED', 'Invalid token response: missing access_token');
+    }
+
+    return tokens;
   } catch (error) {
-    // Enhanced error handling with more context
-    logger.error('Token exchange catch block - error details:', {
-      errorType: error?.constructor?.name,
-      errorMessage: error instanceof Error ? error.message : String(error),
-      errorStack: error instanceof Error ? error.stack : undefined,
-      errorCause: error instanceof Error ? error.cause : undefined,
-      endpoint: config.tokenEndpoint,
-    });
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    if (error instanceof HttpTimeoutError) {
+      logger.error('Token exchange timeout:', {
+        endpoint: config.tokenEndpoint,
+        timeout: `${error.timeoutMs / 1000}s`,
+      });
+      throw new AppError(
+        'TOKEN_EXCHANGE_TIMEOUT',
+        `Token exchange timed out after ${error.timeoutMs / 1000} seconds`,
+        { cause: error }
+      );
+    }
 
-    if (error instanceof TypeError && (error.message.includes('fetch') || error.message.includes('Failed to fetch'))) {
+    if (error instanceof HttpRequestError) {
       logger.error('Network error during token exchange:', {
         endpoint: config.tokenEndpoint,
         error: error.message,
         cause: error.cause,
-        stack: error.stack,
       });
-      throw new Error(
+      throw new AppError(
+        'UAE_PASS_UNREACHABLE',
         `Failed to connect to UAE PASS token endpoint. ` +
         `Please verify: 1) Network connectivity, 2) Token endpoint URL is correct (${config.tokenEndpoint}), ` +
         `3) SSL/TLS certificate is valid, 4) No firewall/proxy blocking the request. ` +
         `5) DNS can resolve ${new URL(config.tokenEndpoint).hostname}. ` +
-        `Original error: ${error.message}`
+        `Original error: ${error.message}`,
+        { cause: error }
       );
     }
-    
-    if (error instanceof Error) {
-      // If error message already contains our custom message, just re-throw
-      if (error.message.includes('Token exchange') || error.message.includes('Failed to connect') || error.message.includes('timed out')) {
-        throw error;
+
+    logger.error('Token exchange failed:', {
+      errorType: error?.constructor?.name,
+      errorMessage: error instanceof Error ? error.message : String(error),
+      endpoint: config.tokenEndpoint,
+    });
+    throw toAppError(error, 'TOKEN_EXCHANGE_FAILED');
+  }
+}
+
+/**
+ * Obtain a fresh access token using a refresh token
+ * Reference: RFC 6749 Section 6 - Refreshing an Access Token
+ *
+ * The provider may rotate the refresh token. If the response does not include
+ * a new refresh_token, the caller should keep using the previous one.
+ */
+export async function refreshTokens(refreshToken: string): Promise<TokenResponse> {
+  const config = await getUAEPassConfig();
+
+  try {
+    const clientAuth = await getClientAuthentication(config, config.tokenEndpoint);
+    const params = new URLSearchParams({
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+      ...clientAuth.params,
+    });
+
+    logger.debug('Calling token endpoint for refresh:', config.tokenEndpoint);
+
+    // Refresh tokens may rotate on use, so this is not retried once it reached UAE PASS
+    const response = await getHttpTransport('UAE_PASS').request(config.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+        ...clientAuth.headers,
+      },
+      body: params.toString(),
+    });
+
+    const responseText = await response.text();
+    logger.debug('Refresh response status:', response.status, response.statusText);
+
+    if (!response.ok) {
+      let errorData: { error?: string; error_description?: string } = {};
+      try {
+        errorData = JSON.parse(responseText);
+      } catch {
+        errorData = { error: responseText };
       }
-      throw new Error(`Failed to exchange code for tokens: ${error.message}`);
+      logger.warn('Token refresh rejected:', {
+        status: response.status,
+        error: errorData.error,
+        error_description: errorData.error_description,
+      });
+      throw new AppError(
+        errorData.error === 'invalid_client' ? 'INVALID_CLIENT' : 'TOKEN_REFRESH_FAILED',
+        errorData.error_description ||
+        errorData.error ||
+        `Token refresh failed with status ${response.status}: ${response.statusText}`
+      );
     }
-    throw new Error('Failed to exchange code for tokens: Unknown error');
+
+    const tokens: TokenResponse = JSON.parse(responseText);
+    if (!tokens.access_token) {
+      throw new AppError('TOKEN_REFRESH_FAILED', 'Invalid refresh response: missing access_token');
+    }
+
+    logger.info('Token refresh successful');
+    return tokens;
+  } catch (error) {
+    if (error instanceof HttpRequestError) {
+      throw new AppError('UAE_PASS_UNREACHABLE', `Token refresh failed: ${error.message}`, { cause: error });
+    }
+    throw toAppError(error, 'TOKEN_REFRESH_FAILED');
+  }
+}
+
+/**
+ * ID token validation mode
+ * - strict: any validation failure rejects the login (default, always used in production)
+ * - lenient: failures are logged and the login continues WITHOUT trusting ID token claims;
+ *   only for sandbox setups with non-standard issuer configurations
+ */
+export type IdTokenValidationMode = 'strict' | 'lenient';
+
+// ID token validation settings
+export interface IdTokenValidationSettings {
+  mode: IdTokenValidationMode;
+  clockToleranceSeconds: number;
+  allowedAlgorithms: string[];
+  maxAgeSeconds?: number; // When set, auth_time is required and checked
+}
+
+/**
+ * Get ID token validation settings from environment variables
+ *
+ * UAE_PASS_ID_TOKEN_VALIDATION - strict | lenient (lenient is ignored in production)
+ * UAE_PASS_CLOCK_SKEW_SECONDS  - allowed clock skew for exp/iat/auth_time (default 60)
+ * UAE_PASS_ID_TOKEN_ALGORITHMS - comma-separated signing algorithm allowlist (default RS256)
+ * UAE_PASS_MAX_AGE_SECONDS     - maximum authentication age, also sent as max_age
+ */
+export function getIdTokenValidationSettings(): IdTokenValidationSettings {
+  let mode: IdTokenValidationMode = process.env.UAE_PASS_ID_TOKEN_VALIDATION === 'lenient' ? 'lenient' : 'strict';
+  if (mode === 'lenient' && getUAEPassEnvironment() === 'production') {
+    logger.error('UAE_PASS_ID_TOKEN_VALIDATION=lenient is not allowed in production - using strict');
+    mode = 'strict';
   }
+
+  const clockSkew = parseInt(process.env.UAE_PASS_CLOCK_SKEW_SECONDS || '', 10);
+  const maxAge = parseInt(process.env.UAE_PASS_MAX_AGE_SECONDS || '', 10);
+
+  return {
+    mode,
+    clockToleranceSeconds: Number.isFinite(clockSkew) && clockSkew >= 0 ? clockSkew : 60,
+    allowedAlgorithms: (process.env.UAE_PASS_ID_TOKEN_ALGORITHMS || 'RS256')
+      .split(',')
+      .map(alg => alg.trim())
+      .filter(Boolean),
+    maxAgeSeconds: Number.isFinite(maxAge) && maxAge > 0 ? maxAge : undefined,
+  };
+}
+
+/**
+ * Compute the at_hash for an access token
+ * Reference: OpenID Connect Core 1.0 - Section 3.1.3.6
+ *
+ * Left-most half of the hash of the access token, using the hash algorithm
+ * of the ID token's signing algorithm (e.g. SHA-256 for RS256), base64url encoded.
+ */
+function computeAtHash(accessToken: string, alg: string): string {
+  const bits = alg.slice(-3);
+  const hashAlgorithm = bits === '384' ? 'sha384' : bits === '512' ? 'sha512' : 'sha256';
+  const digest = crypto.createHash(hashAlgorithm).update(accessToken, 'ascii').digest();
+  return digest.subarray(0, digest.length / 2).toString('base64url');
 }
 
 /**
  * Validate ID token signature and claims
- * Reference: OpenID Connect Core 1.0 - ID Token Validation
+ * Reference: OpenID Connect Core 1.0 - Section 3.1.3.7 ID Token Validation
+ *
+ * Checks: signature (algorithm allowlist), iss, aud, exp/iat (with clock skew),
+ * nonce, azp, at_hash (when an access token is given) and auth_time/max_age.
+ *
+ * @param options.accessToken - Access token issued with the ID token, for at_hash verification
  */
 export async function validateIdToken(
   idToken: string,
-  expectedNonce: string
+  expectedNonce: string,
+  options: { accessToken?: string } = {}
 ): Promise<JWTPayload> {
-  const config = getUAEPassConfig();
+  const config = await getUAEPassConfig();
+  const settings = getIdTokenValidationSettings();
 
   try {
-    // Fetch JWKS (JSON Web Key Set) from UAE PASS
-    const JWKS = createRemoteJWKSet(new URL(config.jwksUri));
+    // JWKS (JSON Web Key Set) from UAE PASS - cached per issuer, refetched on unknown kid
+    const JWKS = getJWKS(config.issuer, config.jwksUri);
 
     // Verify the ID token signature and decode it
-    const { payload } = await jwtVerify(idToken, JWKS, {
+    const { payload, protectedHeader } = await jwtVerify(idToken, JWKS, {
       issuer: config.issuer,
       audience: config.clientId,
+      algorithms: settings.allowedAlgorithms,
+      clockTolerance: settings.clockToleranceSeconds,
+      requiredClaims: ['sub', 'exp', 'iat'],
     });
 
     // Validate nonce
@@ -517,57 +968,133 @@ export async function validateIdToken(
       throw new Error('ID token nonce does not match expected nonce');
     }
 
-    // Validate expiration (jwtVerify already checks exp, but we can add custom checks)
-    if (payload.exp && payload.exp < Math.floor(Date.now() / 1000)) {
-      throw new Error('ID token has expired');
+    // Validate authorized party: required with multiple audiences, must be us when present
+    const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (audiences.length > 1 && !payload.azp) {
+      throw new Error('ID token has multiple audiences but no azp claim');
+    }
+    if (payload.azp !== undefined && payload.azp !== config.clientId) {
+      throw new Error('ID token azp does not match client_id');
+    }
+
+    // Validate at_hash against the access token issued alongside the ID token
+    if (options.accessToken && payload.at_hash !== undefined) {
+      if (payload.at_hash !== computeAtHash(options.accessToken, protectedHeader.alg)) {
+        throw new Error('ID token at_hash does not match the access token');
+      }
+    }
+
+    // Validate authentication age when max_age was requested
+    if (settings.maxAgeSeconds !== undefined) {
+      if (typeof payload.auth_time !== 'number') {
+        throw new Error('ID token is missing auth_time required by max_age');
+      }
+      const now = Math.floor(Date.now() / 1000);
+      if (payload.auth_time + settings.maxAgeSeconds + settings.clockToleranceSeconds < now) {
+        throw new Error('ID token auth_time is older than max_age');
+      }
     }
 
     return payload;
   } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`ID token validation failed: ${error.message}`);
+    if (error instanceof HttpRequestError) {
+      // JWKS could not be fetched
+      throw new AppError('UAE_PASS_UNREACHABLE', `ID token validation failed: ${error.message}`, { cause: error });
     }
-    throw new Error('ID token validation failed: Unknown error');
+    throw new AppError(
+      'ID_TOKEN_INVALID',
+      `ID token validation failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { cause: error }
+    );
   }
 }
 
+// Event in a logout token's `events` claim
+const BACKCHANNEL_LOGOUT_EVENT = 'http://schemas.openid.net/event/backchannel-logout';
+
+// Claims identifying what a back-channel logout ends
+export interface LogoutTokenClaims {
+  sub?: string;
+  sid?: string;
+  jti: string;
+  exp: number;
+}
+
+/**
+ * Validate a back-channel logout token
+ * Reference: OpenID Connect Back-Channel Logout 1.0 - Section 2.6 Logout Token Validation
+ *
+ * Checks: signature (same keys and algorithms as ID tokens), iss, aud, iat/exp,
+ * the backchannel-logout event, sub and/or sid, and that no nonce is present.
+ * Throws HttpRequestError when the JWKS cannot be fetched, Error otherwise.
+ */
+export async function validateLogoutToken(logoutToken: string): Promise<LogoutTokenClaims> {
+  const config = await getUAEPassConfig();
+  const settings = getIdTokenValidationSettings();
+
+  const { payload, protectedHeader } = await jwtVerify(logoutToken, getJWKS(config.issuer, config.jwksUri), {
+    issuer: config.issuer,
+    audience: config.clientId,
+    algorithms: settings.allowedAlgorithms,
+    clockTolerance: settings.clockToleranceSeconds,
+    requiredClaims: ['iat', 'exp', 'jti', 'events'],
+  });
+
+  // Explicitly typed JWTs of another kind (e.g. access tokens) are not logout tokens
+  const typ = protectedHeader.typ?.toLowerCase().replace(/^application\//, '');
+  if (typ && typ !== 'logout+jwt' && typ !== 'jwt') {
+    throw new Error(`Logout token has unexpected typ "${protectedHeader.typ}"`);
+  }
+
+  const events = payload.events as Record<string, unknown> | undefined;
+  const event = events?.[BACKCHANNEL_LOGOUT_EVENT];
+  if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+    throw new Error('Logout token events claim does not contain the back-channel logout event');
+  }
+  if (payload.nonce !== undefined) {
+    throw new Error('Logout token must not contain a nonce');
+  }
+
+  const sub = typeof payload.sub === 'string' ? payload.sub : undefined;
+  const sid = typeof payload.sid === 'string' ? payload.sid : undefined;
+  if (!sub && !sid) {
+    throw new Error('Logout token contains neither sub nor sid');
+  }
+
+  return { sub, sid, jti: payload.jti!, exp: payload.exp! };
+}
+
 /**
  * Fetch user information from UAE PASS UserInfo endpoint
  * Reference: OpenID Connect Core 1.0 - UserInfo Endpoint
  */
 export async function fetchUserInfo(accessToken: string): Promise<UAEPassUserProfile> {
-  const config = getUAEPassConfig();
+  const config = await getUAEPassConfig();
 
   try {
-    // Use retry logic with HTTPS fallback for DNS issues
-    const response = await fetchWithRetry(
-      config.userInfoEndpoint,
-      {
-        method: 'GET',
-        headers: {
-          Authorization: `Bearer ${accessToken}`,
-          'Content-Type': 'application/json',
-        },
+    const response = await getHttpTransport('UAE_PASS').request(config.userInfoEndpoint, {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
       },
-      3 // max retries
-    );
+    });
 
     if (!response.ok) {
       const errorData = await response.json().catch(() => ({}));
-      throw new Error(
-        errorData.error_description ||
+      const description = errorData.error_description ||
         errorData.error ||
-        `UserInfo request failed with status ${response.status}`
-      );
+        `UserInfo request failed with status ${response.status}`;
+      throw new AppError('USERINFO_FAILED', `Failed to fetch user info: ${description}`);
     }
 
     const userInfo: UAEPassUserProfile = await response.json();
     return userInfo;
   } catch (error) {
-    if (error instanceof Error) {
-      throw new Error(`Failed to fetch user info: ${error.message}`);
+    if (error instanceof HttpRequestError) {
+      throw new AppError('UAE_PASS_UNREACHABLE', `Failed to fetch user info: ${error.message}`, { cause: error });
     }
-    throw new Error('Failed to fetch user info: Unknown error');
+    throw toAppError(error, 'USERINFO_FAILED');
   }
 }
 
@@ -588,28 +1115,44 @@ export async function fetchUserInfo(accessToken: string): Promise<UAEPassUserPro
  * - sub (subject identifier)
  */
 export function normalizeUserProfile(profile: UAEPassUserProfile): NormalizedUserProfile {
-  // UAE PASS uses specific field names - prioritize those first
-  const firstName =
-    profile.firstnameEN ||     // UAE PASS primary field
-    profile.firstnameAR ||     // UAE PASS Arabic field
+  // UAE PASS returns names in English and Arabic - keep both
+  // Untagged fields (alternative naming, OIDC standard) are used when neither is present
+  const localizedFirstName = toLocalizedValue(
+    profile.firstnameEN,       // UAE PASS primary field
+    profile.firstnameAR,       // UAE PASS Arabic field
     profile.firstName ||       // Alternative naming
-    profile.given_name ||      // OIDC standard
-    '';
+    profile.given_name         // OIDC standard
+  );
 
-  const lastName =
-    profile.lastnameEN ||      // UAE PASS primary field
-    profile.lastnameAR ||      // UAE PASS Arabic field
+  const localizedLastName = toLocalizedValue(
+    profile.lastnameEN,        // UAE PASS primary field
+    profile.lastnameAR,        // UAE PASS Arabic field
     profile.lastName ||        // Alternative naming
-    profile.family_name ||     // OIDC standard
-    '';
+    profile.family_name        // OIDC standard
+  );
 
-  const fullName =
+  const localizedFullName = toLocalizedValue(
     profile.fullnameEN ||      // UAE PASS primary field
+    `${localizedFirstName.en || ''} ${localizedLastName.en || ''}`.trim(),
     profile.fullnameAR ||      // UAE PASS Arabic field
+    `${localizedFirstName.ar || ''} ${localizedLastName.ar || ''}`.trim(),
     profile.fullName ||        // Alternative naming
-    `${firstName} ${lastName}`.trim() ||
-    profile.name ||
-    '';
+    profile.name
+  );
+
+  // UAE PASS uses 'nationalityEN' (country code) and 'nationalityAR'
+  const localizedNationality = toLocalizedValue(
+    profile.nationalityEN,     // UAE PASS primary field
+    profile.nationalityAR,     // UAE PASS Arabic field
+    profile.nationality ||     // Alternative naming
+    profile.country
+  );
+
+  // Single-language values prefer English, as before
+  const firstName = localizedFirstName.en || localizedFirstName.ar || '';
+  const lastName = localizedLastName.en || localizedLastName.ar || '';
+  const fullName = localizedFullName.en || localizedFullName.ar || '';
+  const nationality = localizedNationality.en || localizedNationality.ar || '';
 
   // Emirates ID (idn) - only available for verified accounts (SOP2, SOP3)
   // Do NOT fall back to 'sub' as that's the UUID, not Emirates ID
@@ -636,14 +1179,6 @@ export function normalizeUserProfile(profile: UAEPassUserProfile): NormalizedUse
     profile.birthdate ||       // OIDC standard
     '';
 
-  // UAE PASS uses 'nationalityEN' for nationality
-  const nationality =
-    profile.nationalityEN ||   // UAE PASS primary field
-    profile.nationalityAR ||   // UAE PASS Arabic field
-    profile.nationality ||     // Alternative naming
-    profile.country ||
-    '';
-
   // Extract UUID from UAE PASS response
   // In OIDC, 'sub' (subject identifier) is typically the UUID
   // UAE PASS may also provide 'uuid' field explicitly
@@ -670,7 +1205,7 @@ export function normalizeUserProfile(profile: UAEPassUserProfile): NormalizedUse
   logger.debug('Available profile fields:', Object.keys(profile));
 
   // Determine user type from the extracted value, ACR, or Emirates ID fallback
-  const userType = determineSOPLevel(rawUserType, profile.acr, emiratesId);
+  const userType = determineSOPLevel(rawUserType, profile.acr, emiratesId, dateOfBirth);
 
   return {
     fullName: fullName || 'N/A',
@@ -681,6 +1216,12 @@ export function normalizeUserProfile(profile: UAEPassUserProfile): NormalizedUse
     email: email || 'N/A',
     dateOfBirth: dateOfBirth || undefined,
     nationality: nationality || undefined,
+    localized: {
+      firstName: localizedFirstName,
+      lastName: localizedLastName,
+      fullName: localizedFullName,
+      nationality: localizedNationality,
+    },
     sub: profile.sub,
     uuid: uuid,
     acr: profile.acr,
@@ -697,13 +1238,19 @@ export function normalizeUserProfile(profile: UAEPassUserProfile): NormalizedUse
  *    - urn:safelayer:tws:policies:authentication:level:low = SOP1 (Basic/Unverified)
  *    - urn:safelayer:tws:policies:authentication:level:substantial = SOP2 (Verified)
  *    - urn:safelayer:tws:policies:authentication:level:high = SOP3 (Fully Verified)
- * 3. Inference from Emirates ID presence (fallback)
+ * 3. Inference from a structurally valid Emirates ID (fallback)
  * 
  * @param userType - Direct userType from userInfo (e.g., "SOP1", "SOP2", "SOP3")
  * @param acr - ACR claim from ID token
  * @param emiratesId - Emirates ID for fallback inference (optional)
+ * @param dateOfBirth - Profile date of birth, cross-checked against the Emirates ID (optional)
  */
-export function determineSOPLevel(userType?: string, acr?: string, emiratesId?: string): SOPLevel {
+export function determineSOPLevel(
+  userType?: string,
+  acr?: string,
+  emiratesId?: string,
+  dateOfBirth?: string
+): SOPLevel {
   // First check if userType is directly provided (most common in UAE PASS)
   if (userType) {
     const upperUserType = userType.toUpperCase();
@@ -729,13 +1276,17 @@ export function determineSOPLevel(userType?: string, acr?: string, emiratesId?:
     }
   }
 
-  // Final fallback: Determine by Emirates ID presence
-  // If Emirates ID is present and valid (15 digits), user is at least SOP2
+  // Final fallback: Determine by Emirates ID
+  // A structurally valid Emirates ID (checksum, birth year) means at least SOP2
   // If no Emirates ID, user is likely SOP1 (unverified)
-  if (emiratesId && emiratesId.length === 15 && /^\d+$/.test(emiratesId)) {
+  const emiratesIdVerdict = validateEmiratesId(emiratesId, { dateOfBirth });
+  if (emiratesIdVerdict.status === 'valid') {
     logger.info('Determining SOP level from Emirates ID presence - inferred SOP2');
     return 'SOP2'; // Emirates ID verified = at least SOP2
   }
+  if (emiratesIdVerdict.status === 'invalid') {
+    logger.warn('Emirates ID failed validation, not inferring SOP level from it:', emiratesIdVerdict.issue);
+  }
 
   logger.warn('Could not determine SOP level from userType:', userType, 'or acr:', acr, 'or emiratesId');
   return 'UNKNOWN';
@@ -0,0 +1,387 @@
+/**
+ * UAE PASS Digital Signature Module
+ *
+ * Signs PDF documents (e.g. the client agreement) with the user's UAE PASS identity:
+ * 1. Create a signer process
+ * 2. Upload the document (sent with the create request, as UAE PASS expects)
+ * 3. Redirect the user to the signing task URL
+ * 4. Poll the process until it finishes, then download the signed PDF
+ *
+ * API calls authenticate with a client_credentials access token from the
+ * UAE PASS token endpoint.
+ * Reference: https://docs.uaepass.ae/ (Digital Signature - eSign Service Provider API)
+ */
+
+import { UAEPassEnvironment, getStaticUAEPassConfig } from './uaePass';
+import { createLogger } from './logger';
+import { getHttpTransport } from './httpTransport';
+import { ClientAuthMethod, getClientAuthentication } from './clientAuth';
+
+const logger = createLogger('UAE PASS SIGN');
+
+const DEFAULT_POLL_INTERVAL_MS = 3000;
+const DEFAULT_POLL_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+const TOKEN_EXPIRY_MARGIN_MS = 30 * 1000;
+
+// UAE PASS Digital Signature Configuration Interface
+export interface UAEPassSignatureConfig {
+  environment: UAEPassEnvironment;
+  clientId: string;
+  clientSecret: string;
+  clientAuthMethod: ClientAuthMethod; // Same method as login
+  tokenEndpoint: string;
+  scope: string;
+  signerProcessesEndpoint: string;
+  documentsEndpoint: string;
+  signaturePolicyId: string;
+  finishCallbackUrl?: string; // Where UAE PASS sends the user after signing
+  pollIntervalMs: number;
+  pollTimeoutMs: number;
+}
+
+// Signer process states reported by UAE PASS
+export type SignerProcessStatus = 'active' | 'finished' | 'canceled' | 'failed' | 'expired';
+
+// Signer process as used by the application
+export interface SignerProcess {
+  id: string;
+  status: SignerProcessStatus;
+  signingUrl?: string; // Pending signing task URL - redirect the user here
+  documentId: string;
+  documentName?: string;
+}
+
+// Document to sign
+export interface SignatureDocument {
+  fileName: string;
+  content: Buffer | Uint8Array;
+}
+
+// Visible signature placement on the PDF
+export interface SignatureField {
+  page: number | 'last';
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Outcome reported to finish_callback_url
+export interface SigningCallbackResult {
+  status: 'finished' | 'canceled' | 'failed';
+  signerProcessId?: string;
+}
+
+// Raw signer process as returned by the eSign API
+interface SignerProcessResponse {
+  id: string;
+  status?: string;
+  tasks?: { pending?: Array<{ id?: string; url?: string }> };
+  documents?: Array<{ id: string; name?: string }>;
+}
+
+const DEFAULT_SIGNATURE_FIELD: SignatureField = {
+  page: 'last',
+  x: 50,
+  y: 50,
+  width: 200,
+  height: 80,
+};
+
+const SIGNER_PROCESS_STATUSES: SignerProcessStatus[] = ['active', 'finished', 'canceled', 'failed', 'expired'];
+
+// Cached client_credentials token
+let serviceToken: { accessToken: string; expiresAt: number } | null = null;
+
+function readMilliseconds(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Get UAE PASS digital signature configuration from environment variables
+ *
+ * Uses the same UAE PASS environment (and token endpoint) as login. Signing
+ * usually has its own client credentials; they default to the login client.
+ */
+export function getUAEPassSignatureConfig(): UAEPassSignatureConfig {
+  const authConfig = getStaticUAEPassConfig();
+  // The eSign API is published on the identity host (or the local mock)
+  const baseUrl = (
+    process.env.UAE_PASS_SIGN_BASE_URL || `${authConfig.issuer.replace(/\/+$/, '')}/trustedx-resources/esignsp/v2`
+  ).replace(/\/+$/, '');
+
+  return {
+    environment: authConfig.environment,
+    clientId: process.env.UAE_PASS_SIGN_CLIENT_ID || authConfig.clientId,
+    clientSecret: process.env.UAE_PASS_SIGN_CLIENT_SECRET || authConfig.clientSecret,
+    clientAuthMethod: authConfig.clientAuthMethod,
+    tokenEndpoint: authConfig.tokenEndpoint,
+    scope: process.env.UAE_PASS_SIGN_SCOPE || 'urn:safelayer:eidas:sign:process:document',
+    signerProcessesEndpoint: `${baseUrl}/signer_processes`,
+    documentsEndpoint: `${baseUrl}/documents`,
+    signaturePolicyId: process.env.UAE_PASS_SIGN_POLICY_ID || 'urn:safelayer:eidas:policies:sign:document:pdf',
+    finishCallbackUrl: process.env.UAE_PASS_SIGN_CALLBACK_URL || undefined,
+    pollIntervalMs: readMilliseconds('UAE_PASS_SIGN_POLL_INTERVAL_MS', DEFAULT_POLL_INTERVAL_MS),
+    pollTimeoutMs: readMilliseconds('UAE_PASS_SIGN_POLL_TIMEOUT_MS', DEFAULT_POLL_TIMEOUT_MS),
+  };
+}
+
+/**
+ * Read an error response into an Error with the provider's message
+ */
+async function toSignatureError(response: Response, action: string): Promise<Error> {
+  const text = await response.text().catch(() => '');
+  let detail = text;
+  try {
+    const body = JSON.parse(text);
+    detail = body.error_description || body.message || body.error || text;
+  } catch {
+    // Not JSON - keep the raw text
+  }
+  logger.error(`${action} failed:`, { status: response.status, detail });
+  return new Error(`${action} failed (${response.status}): ${detail || response.statusText}`);
+}
+
+/**
+ * Get an access token for the eSign API (client_credentials grant)
+ * Tokens are reused until shortly before they expire
+ */
+async function getServiceAccessToken(config: UAEPassSignatureConfig): Promise<string> {
+  if (serviceToken && serviceToken.expiresAt > Date.now()) {
+    return serviceToken.accessToken;
+  }
+
+  const clientAuth = await getClientAuthentication(config, config.tokenEndpoint);
+  // A client_credentials request can be repeated, but not with the same client assertion
+  const response = await getHttpTransport('UAE_PASS').request(config.tokenEndpoint, {
+    method: 'POST',
+    idempotent: clientAuth.replayable,
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Accept: 'application/json',
+      ...clientAuth.headers,
+    },
+    body: new URLSearchParams({
+      grant_type: 'client_credentials',
+      scope: config.scope,
+      ...clientAuth.params,
+    }).toString(),
+  });
+
+  if (!response.ok) {
+    throw await toSignatureError(response, 'Signature access token request');
+  }
+
+  const body = (await response.json()) as { access_token: string; expires_in?: number };
+  serviceToken = {
+    accessToken: body.access_token,
+    expiresAt: Date.now() + (body.expires_in || 300) * 1000 - TOKEN_EXPIRY_MARGIN_MS,
+  };
+  return body.access_token;
+}
+
+/**
+ * Map the eSign API representation onto SignerProcess
+ */
+function toSignerProcess(body: SignerProcessResponse): SignerProcess {
+  const document = body.documents?.[0];
+  if (!body.id || !document?.id) {
+    throw new Error('Signer process response is missing the process or document id');
+  }
+
+  const status = (body.status || 'active').toLowerCase() as SignerProcessStatus;
+  return {
+    id: body.id,
+    status: SIGNER_PROCESS_STATUSES.includes(status) ? status : 'active',
+    signingUrl: body.tasks?.pending?.[0]?.url,
+    documentId: document.id,
+    documentName: document.name,
+  };
+}
+
+/**
+ * Steps 1 and 2: create a signer process and upload the PDF to sign
+ *
+ * Returns the process; redirect the user to `signingUrl` (step 3) and keep
+ * the process id to poll for the result.
+ *
+ * @param options.finishCallbackUrl - Overrides UAE_PASS_SIGN_CALLBACK_URL for this process
+ * @param options.signatureField - Where the visible signature goes (default: bottom-left of the last page)
+ * @param options.locale - UAE PASS signing page language
+ */
+export async function createSignerProcess(
+  document: SignatureDocument,
+  options: {
+    finishCallbackUrl?: string;
+    signatureField?: SignatureField;
+    locale?: 'en' | 'ar';
+  } = {}
+): Promise<SignerProcess> {
+  const config = getUAEPassSignatureConfig();
+  const finishCallbackUrl = options.finishCallbackUrl || config.finishCallbackUrl;
+  if (!finishCallbackUrl) {
+    throw new Error('No signing callback URL: set UAE_PASS_SIGN_CALLBACK_URL or pass finishCallbackUrl');
+  }
+
+  const accessToken = await getServiceAccessToken(config);
+  const field = options.signatureField || DEFAULT_SIGNATURE_FIELD;
+
+  const processDefinition = {
+    process_type: 'urn:safelayer:eidas:processes:document:sign:esigp',
+    labels: [['digitalid', 'server', 'qualified']],
+    signer: {
+      signature_policy_id: config.signaturePolicyId,
+      parameters: {
+        type: 'pades-baseline',
+        signature_field: {
+          name: 'Sign1',
+          location: {
+            page: { number: String(field.page) },
+            rectangle: { x: field.x, y: field.y, width: field.width, height: field.height },
+          },
+        },
+      },
+    },
+    ui_locales: [options.locale === 'ar' ? 'ar_AE' : 'en_US'],
+    finish_callback_url: finishCallbackUrl,
+    views: { document_agreement: { skip_server_id: 'true' } },
+    timestamp: { provider_id: 'urn:uae:tws:generation:policy:digitalid' },
+  };
+
+  const form = new FormData();
+  form.append('process', JSON.stringify(processDefinition));
+  form.append('document', new Blob([new Uint8Array(document.content)], { type: 'application/pdf' }), document.fileName);
+  // Encode the multipart body up front; the transport sends plain buffers
+  const multipart = new Response(form);
+
+  logger.info('Creating signer process:', { fileName: document.fileName, size: document.content.byteLength });
+
+  const response = await getHttpTransport('UAE_PASS').request(config.signerProcessesEndpoint, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+      'Content-Type': multipart.headers.get('content-type') || 'multipart/form-data',
+    },
+    body: Buffer.from(await multipart.arrayBuffer()),
+  });
+
+  if (!response.ok) {
+    throw await toSignatureError(response, 'Create signer process');
+  }
+
+  const signerProcess = toSignerProcess(await response.json());
+  if (!signerProcess.signingUrl) {
+    throw new Error('Signer process was created without a signing task URL');
+  }
+
+  logger.info('Signer process created:', { id: signerProcess.id });
+  return signerProcess;
+}
+
+/**
+ * Step 3: URL to redirect the user to for signing
+ */
+export function getSigningUrl(signerProcess: SignerProcess): string {
+  if (!signerProcess.signingUrl) {
+    throw new Error(`Signer process ${signerProcess.id} has no pending signing task`);
+  }
+  return signerProcess.signingUrl;
+}
+
+/**
+ * Read the outcome UAE PASS appends to finish_callback_url
+ * The callback only says how the user left the signing page; always confirm
+ * by polling the process before trusting the result.
+ */
+export function parseSigningCallback(searchParams: URLSearchParams): SigningCallbackResult {
+  const status = searchParams.get('status');
+  return {
+    status: status === 'finished' || status === 'canceled' ? status : 'failed',
+    signerProcessId: searchParams.get('signer_process_id') || undefined,
+  };
+}
+
+/**
+ * Get the current state of a signer process
+ */
+export async function getSignerProcess(signerProcessId: string): Promise<SignerProcess> {
+  const config = getUAEPassSignatureConfig();
+  const accessToken = await getServiceAccessToken(config);
+
+  const response = await getHttpTransport('UAE_PASS').request(`${config.signerProcessesEndpoint}/${encodeURIComponent(signerProcessId)}`, {
+    method: 'GET',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'application/json',
+    },
+  });
+
+  if (!response.ok) {
+    throw await toSignatureError(response, 'Get signer process');
+  }
+
+  return toSignerProcess(await response.json());
+}
+
+/**
+ * Step 4a: poll a signer process until it leaves the active state
+ * Throws if the user cancelled, signing failed, or the poll timed out.
+ */
+export async function waitForSignerProcess(
+  signerProcessId: string,
+  options: { intervalMs?: number; timeoutMs?: number } = {}
+): Promise<SignerProcess> {
+  const config = getUAEPassSignatureConfig();
+  const intervalMs = options.intervalMs ?? config.pollIntervalMs;
+  const deadline = Date.now() + (options.timeoutMs ?? config.pollTimeoutMs);
+
+  while (true) {
+    const signerProcess = await getSignerProcess(signerProcessId);
+
+    if (signerProcess.status === 'finished') {
+      return signerProcess;
+    }
+    if (signerProcess.status !== 'active') {
+      throw new Error(`Signer process ${signerProcessId} ended with status "${signerProcess.status}"`);
+    }
+    if (Date.now() + intervalMs > deadline) {
+      throw new Error(`Timed out waiting for signer process ${signerProcessId} to finish`);
+    }
+
+    logger.debug('Signer process still active, polling again:', { id: signerProcessId, intervalMs });
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+  }
+}
+
+/**
+ * Step 4b: download the signed PDF of a finished signer process
+ */
+export async function downloadSignedDocument(signerProcess: SignerProcess): Promise<Buffer> {
+  if (signerProcess.status !== 'finished') {
+    throw new Error(`Signer process ${signerProcess.id} is not finished (status "${signerProcess.status}")`);
+  }
+
+  const config = getUAEPassSignatureConfig();
+  const accessToken = await getServiceAccessToken(config);
+
+  const response = await getHttpTransport('UAE_PASS').request(
+    `${config.documentsEndpoint}/${encodeURIComponent(signerProcess.documentId)}/content`,
+    {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        Accept: 'application/pdf',
+      },
+    }
+  );
+
+  if (!response.ok) {
+    throw await toSignatureError(response, 'Download signed document');
+  }
+
+  const content = Buffer.from(await response.arrayBuffer());
+  logger.info('Signed document downloaded:', { id: signerProcess.id, size: content.length });
+  return content;
+}
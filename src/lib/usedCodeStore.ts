@@ -0,0 +1,122 @@
+/**
+ * Used Authorization Code Store
+ *
+ * Remembers which authorization codes have been redeemed, so a callback that
+ * is processed twice (page refresh, React strict mode, a replayed URL) is
+ * recognized before a second token exchange. Codes are kept as SHA-256 hashes,
+ * only until they could no longer be redeemed anyway.
+ *
+ * Backends, chosen with USED_CODE_STORE:
+ * - memory: this process only
+ * - redis: shared by every app instance (SET NX), at SESSION_STORE_REDIS_URL
+ *   or REDIS_URL
+ * Defaults to redis when SESSION_STORE=redis, otherwise memory. A different
+ * implementation can be plugged in with setUsedCodeStore().
+ */
+
+import crypto from 'crypto';
+import { RedisClient } from './redisClient';
+import { createLogger } from './logger';
+
+const logger = createLogger('USED CODES');
+
+const DEFAULT_REDIS_KEY_PREFIX = 'uaepass:used-code:';
+
+// Anything that can atomically record a code as used
+export interface UsedCodeStore {
+  // Returns false when the key was already recorded (and not yet expired)
+  markUsed(key: string, ttlSeconds: number): Promise<boolean>;
+}
+
+/**
+ * Used codes in this process's memory; expired entries are dropped as new ones arrive
+ */
+class MemoryUsedCodeStore implements UsedCodeStore {
+  constructor(private readonly usedCodes: Map<string, number>) {}
+
+  async markUsed(key: string, ttlSeconds: number): Promise<boolean> {
+    const now = Date.now();
+    for (const [usedKey, expiresAt] of this.usedCodes) {
+      if (expiresAt <= now) this.usedCodes.delete(usedKey);
+    }
+    if (this.usedCodes.has(key)) {
+      return false;
+    }
+    this.usedCodes.set(key, now + ttlSeconds * 1000);
+    return true;
+  }
+}
+
+/**
+ * Used codes as Redis keys: SET NX only succeeds for the first caller
+ */
+class RedisUsedCodeStore implements UsedCodeStore {
+  constructor(private readonly client: RedisClient, private readonly keyPrefix: string) {}
+
+  async markUsed(key: string, ttlSeconds: number): Promise<boolean> {
+    const reply = await this.client.command(['SET', this.keyPrefix + key, '1', 'NX', 'EX', String(Math.max(1, Math.ceil(ttlSeconds)))]);
+    return reply === 'OK';
+  }
+}
+
+// Kept on globalThis so used codes survive dev-server module reloads
+interface UsedCodeState {
+  memoryCodes: Map<string, number>;
+  store: UsedCodeStore | null;
+}
+
+const globalForUsedCodes = globalThis as typeof globalThis & { usedCodeState?: UsedCodeState };
+const usedCodeState: UsedCodeState = globalForUsedCodes.usedCodeState ??= {
+  memoryCodes: new Map(),
+  store: null,
+};
+
+/**
+ * Create the store configured with USED_CODE_STORE
+ */
+function createUsedCodeStore(): UsedCodeStore {
+  const backend = (process.env.USED_CODE_STORE || (process.env.SESSION_STORE === 'redis' ? 'redis' : 'memory'))
+    .trim()
+    .toLowerCase();
+
+  if (backend !== 'memory' && backend !== 'redis') {
+    throw new Error(`Invalid USED_CODE_STORE: ${backend}. Use one of: memory, redis`);
+  }
+
+  logger.info('Using used-code store:', backend);
+  if (backend === 'redis') {
+    const redisUrl = process.env.SESSION_STORE_REDIS_URL || process.env.REDIS_URL;
+    if (!redisUrl) {
+      throw new Error('USED_CODE_STORE=redis requires SESSION_STORE_REDIS_URL (or REDIS_URL)');
+    }
+    return new RedisUsedCodeStore(new RedisClient(redisUrl), process.env.USED_CODE_STORE_REDIS_PREFIX || DEFAULT_REDIS_KEY_PREFIX);
+  }
+  return new MemoryUsedCodeStore(usedCodeState.memoryCodes);
+}
+
+/**
+ * Get the used-code store (created from env on first use)
+ */
+export function getUsedCodeStore(): UsedCodeStore {
+  if (!usedCodeState.store) {
+    usedCodeState.store = createUsedCodeStore();
+  }
+  return usedCodeState.store;
+}
+
+/**
+ * Plug in a different store, or pass null to go back to the configured one
+ */
+export function setUsedCodeStore(store: UsedCodeStore | null): void {
+  usedCodeState.store = store;
+}
+
+/**
+ * Record an authorization code as redeemed
+ *
+ * @returns false when the code was already recorded, i.e. this is a repeat
+ */
+export async function markAuthorizationCodeUsed(code: string, ttlSeconds: number): Promise<boolean> {
+  const key = crypto.createHash('sha256').update(code).digest('base64url');
+  return getUsedCodeStore().markUsed(key, ttlSeconds);
+}
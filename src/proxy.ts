@@ -0,0 +1,28 @@
+/**
+ * Request Proxy
+ *
+ * Applies the route policies in src/lib/routeProtection.ts before a protected
+ * page or API route runs.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRoutePolicy, checkAccess, buildDeniedResponse } from '@/lib/routeProtection';
+import { peekSession } from '@/lib/session';
+
+export async function proxy(request: NextRequest) {
+  const policy = getRoutePolicy(request.nextUrl.pathname);
+  if (!policy) {
+    return NextResponse.next();
+  }
+
+  const decision = checkAccess(await peekSession(request.cookies), policy);
+  if (!decision.allowed) {
+    return buildDeniedResponse(request, decision);
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  // Everything except static assets; public routes pass straight through
+  matcher: ['/((?!_next/static|_next/image|favicon.ico).*)'],
+};